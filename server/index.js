@@ -10,6 +10,12 @@ const swarms = new Map(); // modelId → Map<peerId, peerInfo>
 
 const STALE_TIMEOUT = 5 * 60 * 1000; // 5 minutes
 
+// Peers get a random sample of the network rather than everyone, keeping the overlay bounded
+const NEIGHBOR_SAMPLE_SIZE = parseInt(process.env.NEIGHBOR_SAMPLE_SIZE, 10) || 8;
+
+// Model IDs are content-addressed: hex SHA-256 of the GLB bytes
+const MODEL_ID_PATTERN = /^[0-9a-f]{64}$/;
+
 console.log(`BitTorrent-style tracker started on port ${PORT}`);
 
 wss.on('connection', (ws) => {
@@ -103,6 +109,11 @@ function handleAnnounce(ws, clientInfo, message) {
     return;
   }
 
+  if (!MODEL_ID_PATTERN.test(modelId)) {
+    console.error(`Announce with invalid modelId from ${clientInfo.id}: ${modelId}`);
+    return;
+  }
+
   if (!swarms.has(modelId)) {
     swarms.set(modelId, new Map());
     console.log(`New swarm created: ${modelId}`);
@@ -123,20 +134,21 @@ function handleAnnounce(ws, clientInfo, message) {
     `(complete: ${complete}, swarm size: ${swarm.size})`
   );
 
-  const stats = getSwarmStats(modelId);
+  const stats = getSwarmStats(modelId, clientInfo.id);
   ws.send(JSON.stringify({
     type: 'announce-response',
     modelId,
     ...stats
   }));
 
-  broadcastToSwarm(modelId, {
+  // Only a sample of the swarm hears about the newcomer; the rest find it through gossip
+  sendToRandomSwarmPeers(modelId, {
     type: 'peer-joined-swarm',
     modelId,
     peerId: clientInfo.id,
     complete: complete || false,
-    peers: stats.peers
-  }, clientInfo.id);
+    peers: [{ id: clientInfo.id, complete: complete || false }]
+  }, clientInfo.id, NEIGHBOR_SAMPLE_SIZE);
 }
 
 function handleSignaling(ws, clientInfo, message) {
@@ -156,25 +168,48 @@ function handleSignaling(ws, clientInfo, message) {
 }
 
 /**
- * Handle connection request - broadcast to all peers
+ * Handle connection request - ask a random sample of other peers to connect
  */
-function handleConnectionRequest(ws, clientInfo) {
-  console.log(`${clientInfo.id} requesting connections`);
-
-  for (const [client] of clients.entries()) {
-    if (client !== ws && client.readyState === WebSocket.OPEN) {
-      client.send(JSON.stringify({
-        type: 'request-connection',
-        from: clientInfo.id
-      }));
-    }
+function handleConnectionRequest(ws, clientInfo, message) {
+  const requested = parseInt(message.count, 10) || NEIGHBOR_SAMPLE_SIZE;
+  const count = Math.min(Math.max(requested, 1), NEIGHBOR_SAMPLE_SIZE);
+  const exclude = new Set(Array.isArray(message.exclude) ? message.exclude : []);
+
+  const candidates = Array.from(clients.keys()).filter(client =>
+    client !== ws &&
+    client.readyState === WebSocket.OPEN &&
+    !exclude.has(clients.get(client).id)
+  );
+  const chosen = randomSample(candidates, count);
+
+  console.log(`${clientInfo.id} requesting ${count} connection(s), asking ${chosen.length} peer(s)`);
+
+  chosen.forEach(client => {
+    client.send(JSON.stringify({
+      type: 'request-connection',
+      from: clientInfo.id
+    }));
+  });
+}
+
+/**
+ * Picks up to `count` random items (partial Fisher-Yates shuffle)
+ */
+function randomSample(items, count) {
+  const pool = items.slice();
+  const n = Math.min(count, pool.length);
+  for (let i = 0; i < n; i++) {
+    const j = i + Math.floor(Math.random() * (pool.length - i));
+    [pool[i], pool[j]] = [pool[j], pool[i]];
   }
+  return pool.slice(0, n);
 }
 
 /**
- * Get stats for a swarm
+ * Get stats for a swarm. Counts cover the whole swarm; the peer list is a
+ * random sample that leaves out the requesting peer.
  */
-function getSwarmStats(modelId) {
+function getSwarmStats(modelId, excludePeerId = null) {
   const swarm = swarms.get(modelId);
   
   if (!swarm) {
@@ -198,16 +233,18 @@ function getSwarmStats(modelId) {
       leechers++;
     }
     
-    peers.push({
-      id: peerId,
-      complete: peerInfo.complete
-    });
+    if (peerId !== excludePeerId) {
+      peers.push({
+        id: peerId,
+        complete: peerInfo.complete
+      });
+    }
   });
 
   return {
     seeders,
     leechers,
-    peers,
+    peers: randomSample(peers, NEIGHBOR_SAMPLE_SIZE),
     complete: seeders,
     incomplete: leechers
   };
@@ -240,6 +277,29 @@ function broadcastToSwarm(modelId, message, excludePeerId = null) {
   }
 }
 
+/**
+ * Send a message to a random sample of a swarm's peers
+ */
+function sendToRandomSwarmPeers(modelId, message, excludePeerId, count) {
+  const swarm = swarms.get(modelId);
+  if (!swarm) return;
+
+  const targets = [];
+  for (const [ws, clientInfo] of clients.entries()) {
+    if (clientInfo.id !== excludePeerId && swarm.has(clientInfo.id) && ws.readyState === WebSocket.OPEN) {
+      targets.push(ws);
+    }
+  }
+
+  const messageStr = JSON.stringify(message);
+  const chosen = randomSample(targets, count);
+  chosen.forEach(ws => ws.send(messageStr));
+
+  if (chosen.length > 0) {
+    console.log(`Sent to ${chosen.length}/${targets.length} peers in swarm ${modelId}`);
+  }
+}
+
 /**
  * Periodic cleanup of stale swarms
  */
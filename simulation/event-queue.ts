@@ -0,0 +1,81 @@
+/**
+ * Virtual clock and event queue. Events run strictly one at a time in time
+ * order (ties in scheduling order), and an async event finishes before the
+ * next one starts, so runs are deterministic.
+ */
+
+type SimEvent = {
+  at: number;
+  seq: number;
+  run: () => void | Promise<void>;
+};
+
+export class EventQueue {
+  private heap: SimEvent[] = [];
+  private nextSeq = 0;
+  private time = 0;
+
+  public now(): number {
+    return this.time;
+  }
+
+  public get size(): number {
+    return this.heap.length;
+  }
+
+  public schedule(delay: number, run: () => void | Promise<void>): void {
+    this.push({ at: this.time + Math.max(0, delay), seq: this.nextSeq++, run });
+  }
+
+  /**
+   * Runs events until the queue is empty, `until` ms have passed or `done` returns true
+   */
+  public async run(until: number, done: () => boolean = () => false): Promise<void> {
+    while (this.heap.length > 0 && !done()) {
+      const event = this.pop()!;
+      if (event.at > until) {
+        this.time = until;
+        return;
+      }
+      this.time = event.at;
+      await event.run();
+    }
+  }
+
+  private before(a: SimEvent, b: SimEvent): boolean {
+    return a.at < b.at || (a.at === b.at && a.seq < b.seq);
+  }
+
+  private push(event: SimEvent): void {
+    const heap = this.heap;
+    heap.push(event);
+    let i = heap.length - 1;
+    while (i > 0) {
+      const parent = (i - 1) >> 1;
+      if (!this.before(heap[i], heap[parent])) break;
+      [heap[i], heap[parent]] = [heap[parent], heap[i]];
+      i = parent;
+    }
+  }
+
+  private pop(): SimEvent | undefined {
+    const heap = this.heap;
+    const top = heap[0];
+    const last = heap.pop();
+    if (heap.length === 0 || !last) return top;
+
+    heap[0] = last;
+    let i = 0;
+    for (;;) {
+      const left = 2 * i + 1;
+      const right = left + 1;
+      let smallest = i;
+      if (left < heap.length && this.before(heap[left], heap[smallest])) smallest = left;
+      if (right < heap.length && this.before(heap[right], heap[smallest])) smallest = right;
+      if (smallest === i) break;
+      [heap[i], heap[smallest]] = [heap[smallest], heap[i]];
+      i = smallest;
+    }
+    return top;
+  }
+}
@@ -0,0 +1,135 @@
+/**
+ * End-to-end check of P2PClient over the in-memory transports: one client
+ * shares a model and every other client must receive and place it.
+ *
+ *   npm run simulate:clients -- --leechers 4 --latency 10
+ *
+ * Unlike the swarm simulator this runs the whole client (tracker protocol,
+ * handshakes, metadata, verification, download and placement), with
+ * MemoryNetwork standing in for the tracker server and WebRTC. Exits non-zero
+ * if any client has not placed the model before the timeout.
+ */
+
+import { readFileSync } from 'fs';
+import { P2PClient } from '../src/p2p-client';
+import { MemoryNetwork, MemoryModelSink } from '../src/memory-transport';
+import { logger, LogLevel } from '../src/logger';
+import type { Vec3 } from '../src/model-serializer';
+
+interface CliOptions {
+  leechers: number;
+  latency: number;
+  timeout: number;
+  model: string;
+  logLevel: LogLevel;
+}
+
+const LOG_LEVELS: LogLevel[] = ['debug', 'info', 'warn', 'error'];
+const POLL_INTERVAL = 50;
+const PLACEMENT: Vec3 = { x: 4, y: 1, z: -2 };
+
+const USAGE = `Usage: npm run simulate:clients -- [options]
+
+  --leechers N        clients that must receive the shared model (default 3)
+  --latency MS        delay of every tracker and peer message (default 5)
+  --timeout MS        wall-clock limit for the whole check (default 30000)
+  --model PATH        GLB file to share (default public/models/test_model_1.glb)
+  --log-level LEVEL   debug, info, warn or error (default error)
+`;
+
+function parseArgs(args: string[]): CliOptions {
+  const options: CliOptions = {
+    leechers: 3,
+    latency: 5,
+    timeout: 30000,
+    model: 'public/models/test_model_1.glb',
+    logLevel: 'error',
+  };
+
+  for (let i = 0; i < args.length; i++) {
+    const name = args[i].replace(/^--/, '');
+    if (name === 'help') {
+      console.log(USAGE);
+      process.exit(0);
+    }
+
+    const value = args[++i];
+    if (value === undefined) {
+      throw new Error(`Missing value for --${name}`);
+    }
+    const badValue = new Error(`Unknown option or bad value: --${name} ${value}`);
+    const parsed = Number(value);
+
+    if (name === 'model') {
+      options.model = value;
+    } else if (name === 'log-level') {
+      const level = LOG_LEVELS.find(level => level === value);
+      if (!level) throw badValue;
+      options.logLevel = level;
+    } else if (name === 'leechers') {
+      if (!Number.isInteger(parsed) || parsed < 1) throw badValue;
+      options.leechers = parsed;
+    } else if (name === 'latency' || name === 'timeout') {
+      if (!Number.isFinite(parsed) || parsed < 0) throw badValue;
+      options[name] = parsed;
+    } else {
+      throw badValue;
+    }
+  }
+
+  return options;
+}
+
+/**
+ * Polls `condition` until it holds; false if `deadline` passes first
+ */
+async function waitFor(condition: () => boolean, deadline: number): Promise<boolean> {
+  while (!condition()) {
+    if (Date.now() > deadline) return false;
+    await new Promise(resolve => setTimeout(resolve, POLL_INTERVAL));
+  }
+  return true;
+}
+
+async function main(): Promise<void> {
+  const { leechers, latency, timeout, model, logLevel } = parseArgs(process.argv.slice(2));
+  logger.setLevel(logLevel);
+
+  const deadline = Date.now() + timeout;
+  const modelUrl = 'data:model/gltf-binary;base64,' + readFileSync(model).toString('base64');
+  const network = new MemoryNetwork(latency);
+  const seeder = new P2PClient(network.createClientOptions());
+  const sinks = Array.from({ length: leechers }, () => new MemoryModelSink());
+  const clients = [seeder, ...sinks.map(sink => new P2PClient(network.createClientOptions(sink)))];
+
+  try {
+    // Share once every leecher is connected, so all of them are sent the metadata
+    const connected = await waitFor(() => clients.every(client => client.getConnectedPeers().length > 0), deadline);
+    if (!connected) {
+      throw new Error('Clients did not connect to each other before the timeout');
+    }
+
+    const startedAt = Date.now();
+    await seeder.shareModel(modelUrl, PLACEMENT, { x: 0, y: 0, z: 0 }, { x: 1, y: 1, z: 1 }, 'Memory swarm check');
+
+    const [shared] = seeder.exportWorld().placements;
+    if (!shared) {
+      throw new Error('The seeder failed to share the model');
+    }
+
+    const placedBy = () => sinks.filter(sink => sink.placed.has(shared.placementId)).length;
+    const placed = await waitFor(() => placedBy() === leechers, deadline);
+    if (!placed) {
+      throw new Error(`Only ${placedBy()}/${leechers} clients placed the model before the timeout`);
+    }
+
+    console.log(`All ${leechers} clients placed the model in ${Date.now() - startedAt}ms`);
+  } finally {
+    clients.forEach(client => client.disconnect());
+  }
+}
+
+main().then(() => process.exit(0), error => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+});
@@ -0,0 +1,26 @@
+/**
+ * Seeded randomness so a simulation run can be replayed exactly
+ */
+
+export type Random = () => number; // uniform in [0, 1)
+
+/**
+ * mulberry32: small, fast and good enough for picking peers and dropping packets
+ */
+export function createRandom(seed: number): Random {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Exponentially distributed delay with the given mean
+ */
+export function exponential(random: Random, mean: number): number {
+  return -Math.log(1 - random()) * mean;
+}
@@ -0,0 +1,166 @@
+/**
+ * Command-line entry point for the swarm simulator.
+ *
+ *   npm run simulate -- --leechers 50 --chunk-size 32768 --loss 0.01 --runs 5
+ *
+ * Run with --help for every option. Each run uses seed, seed + 1, ... so a
+ * set of runs can be repeated exactly.
+ */
+
+import { logger, LogLevel } from '../src/logger';
+import { DEFAULT_SIMULATION, SimulationConfig, SimulationReport, runSimulation } from './swarm-simulator';
+
+interface CliOptions {
+  config: SimulationConfig;
+  runs: number;
+  json: boolean;
+  logLevel: LogLevel;
+}
+
+const LOG_LEVELS: LogLevel[] = ['debug', 'info', 'warn', 'error'];
+
+const NUMBER_OPTIONS: Record<string, (config: SimulationConfig, value: number) => void> = {
+  'seed': (config, value) => { config.seed = value; },
+  'leechers': (config, value) => { config.leechers = value; },
+  'seeders': (config, value) => { config.seeders = value; },
+  'model-size': (config, value) => { config.modelSize = value; },
+  'chunk-size': (config, value) => { config.chunkSize = value; },
+  'chunks-per-request': (config, value) => { config.chunksPerRequest = value; },
+  'max-peers': (config, value) => { config.maxPeers = value; },
+  'target-neighbors': (config, value) => { config.targetNeighbors = value; },
+  'latency': (config, value) => { config.link.latency = value; },
+  'jitter': (config, value) => { config.link.jitter = value; },
+  'bandwidth': (config, value) => { config.link.bandwidth = value; },
+  'slow-share': (config, value) => { config.link.slowShare = value; },
+  'slow-bandwidth': (config, value) => { config.link.slowBandwidth = value; },
+  'loss': (config, value) => { config.link.loss = value; },
+  'join-window': (config, value) => { config.churn.joinWindow = value; },
+  'mean-session': (config, value) => { config.churn.meanSession = value > 0 ? value : null; },
+  'seed-time': (config, value) => { config.churn.seedTime = value >= 0 ? value : null; },
+  'max-duration': (config, value) => { config.maxDuration = value; },
+};
+
+const USAGE = `Usage: npm run simulate -- [options]
+
+  --runs N                 number of runs, seeded seed, seed+1, ... (default 1)
+  --seed N                 seed of the first run (default ${DEFAULT_SIMULATION.seed})
+  --leechers N             peers downloading the model (default ${DEFAULT_SIMULATION.leechers})
+  --seeders N              peers holding the model from the start (default ${DEFAULT_SIMULATION.seeders})
+  --model-size BYTES       (default ${DEFAULT_SIMULATION.modelSize})
+  --chunk-size BYTES       CHUNK_SIZE (default ${DEFAULT_SIMULATION.chunkSize})
+  --chunks-per-request N   CHUNKS_PER_REQUEST, the initial request window (default ${DEFAULT_SIMULATION.chunksPerRequest})
+  --max-peers N            MAX_PEERS (default ${DEFAULT_SIMULATION.maxPeers})
+  --target-neighbors N     TARGET_NEIGHBORS (default ${DEFAULT_SIMULATION.targetNeighbors})
+  --latency MS             one-way link latency (default ${DEFAULT_SIMULATION.link.latency})
+  --jitter MS              random extra latency per message (default ${DEFAULT_SIMULATION.link.jitter})
+  --bandwidth BYTES/S      upload capacity per peer (default ${DEFAULT_SIMULATION.link.bandwidth})
+  --slow-share P           share of peers with a slow uplink instead, 0-1 (default ${DEFAULT_SIMULATION.link.slowShare})
+  --slow-bandwidth BYTES/S upload capacity of those peers (default ${DEFAULT_SIMULATION.link.slowBandwidth})
+  --loss P                 message loss probability, 0-1 (default ${DEFAULT_SIMULATION.link.loss})
+  --join-window MS         leechers join at random within this window (default ${DEFAULT_SIMULATION.churn.joinWindow})
+  --mean-session MS        mean time before a leecher leaves; 0 = only after seeding (default 0)
+  --seed-time MS           how long finished leechers keep seeding; -1 = forever (default -1)
+  --max-duration MS        simulated time limit per run (default ${DEFAULT_SIMULATION.maxDuration})
+  --json                   print reports as JSON
+  --log-level LEVEL        debug, info, warn or error (default error)
+`;
+
+function parseArgs(args: string[]): CliOptions {
+  const options: CliOptions = {
+    config: structuredClone(DEFAULT_SIMULATION),
+    runs: 1,
+    json: false,
+    logLevel: 'error',
+  };
+
+  for (let i = 0; i < args.length; i++) {
+    const name = args[i].replace(/^--/, '');
+    if (name === 'help') {
+      console.log(USAGE);
+      process.exit(0);
+    }
+    if (name === 'json') {
+      options.json = true;
+      continue;
+    }
+
+    const value = args[++i];
+    if (value === undefined) {
+      throw new Error(`Missing value for --${name}`);
+    }
+    const badValue = new Error(`Unknown option or bad value: --${name} ${value}`);
+    if (name === 'log-level') {
+      const level = LOG_LEVELS.find(level => level === value);
+      if (!level) throw badValue;
+      options.logLevel = level;
+      continue;
+    }
+
+    const parsed = Number(value);
+    if (name === 'runs') {
+      if (!Number.isInteger(parsed) || parsed < 1) throw badValue;
+      options.runs = parsed;
+      continue;
+    }
+
+    const apply = NUMBER_OPTIONS[name];
+    if (!apply || !Number.isFinite(parsed)) {
+      throw badValue;
+    }
+    apply(options.config, parsed);
+  }
+
+  return options;
+}
+
+const seconds = (ms: number) => `${(ms / 1000).toFixed(1)}s`;
+const percent = (ratio: number) => `${(ratio * 100).toFixed(1)}%`;
+
+function printReport(report: SimulationReport): void {
+  const time = report.timeToComplete;
+  console.log(`Run seed=${report.seed} (${seconds(report.simulatedTime)} simulated)`);
+  console.log(`  completed        ${report.completed}/${report.joined} (${report.abandoned} left early)`);
+  console.log(time
+    ? `  time to complete min ${seconds(time.min)}  median ${seconds(time.median)}  p90 ${seconds(time.p90)}  max ${seconds(time.max)}  mean ${seconds(time.mean)}`
+    : '  time to complete n/a');
+  console.log(`  duplicate pieces ${report.duplicatePieces}/${report.piecesReceived} (${percent(report.duplicateRatio)})`);
+  console.log(`  seeder load      ${percent(report.seederLoad)} of piece bytes, ${report.seederCopies.toFixed(2)} model copies`);
+  console.log(`  timeouts         ${report.timeouts}, lost messages ${report.lostMessages}`);
+  const { fast, slow } = report.pipelineWindows;
+  const window = (value: number | null) => value === null ? 'n/a' : value.toFixed(1);
+  console.log(`  request window   ${window(fast)} to fast uploaders, ${window(slow)} to slow ones`);
+}
+
+function printSummary(reports: SimulationReport[]): void {
+  const mean = (values: number[]) => values.reduce((sum, value) => sum + value, 0) / values.length;
+  const medians = reports.flatMap(report => report.timeToComplete ? [report.timeToComplete.median] : []);
+
+  console.log(`Summary over ${reports.length} runs`);
+  console.log(`  completed        ${percent(mean(reports.map(report => report.joined ? report.completed / report.joined : 0)))}`);
+  console.log(`  median time      ${medians.length > 0 ? seconds(mean(medians)) : 'n/a'} (mean of per-run medians)`);
+  console.log(`  duplicate pieces ${percent(mean(reports.map(report => report.duplicateRatio)))}`);
+  console.log(`  seeder load      ${percent(mean(reports.map(report => report.seederLoad)))}`);
+}
+
+async function main(): Promise<void> {
+  const { config, runs, json, logLevel } = parseArgs(process.argv.slice(2));
+  logger.setLevel(logLevel);
+
+  const reports: SimulationReport[] = [];
+  for (let run = 0; run < runs; run++) {
+    const report = await runSimulation({ ...config, seed: config.seed + run });
+    reports.push(report);
+    if (!json) printReport(report);
+  }
+
+  if (json) {
+    console.log(JSON.stringify(reports, null, 2));
+  } else if (reports.length > 1) {
+    printSummary(reports);
+  }
+}
+
+main().catch(error => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+});
@@ -0,0 +1,494 @@
+/**
+ * Headless swarm simulation: real SwarmManager instances exchanging
+ * bitfield/have/request/cancel/piece messages over simulated links, on a
+ * virtual clock with seeded randomness.
+ *
+ * Each peer has one uplink of fixed bandwidth shared by all its connections;
+ * a share of the peers can be given a slower one.
+ * Like PeerSendQueue, control messages go out ahead of queued pieces and a
+ * cancel withdraws a piece that has not started sending. Choking, PEX and
+ * reputation are not modelled: every peer serves every neighbour.
+ */
+
+import { SwarmManager, SwarmAction } from '../src/swarm-manager';
+import { ModelSerializer, ModelPackage, ModelChunk } from '../src/model-serializer';
+import { P2P_CONFIG } from '../src/constants';
+import * as Utils from '../src/utils';
+import { EventQueue } from './event-queue';
+import { createRandom, exponential, Random } from './random';
+
+export interface LinkConfig {
+  latency: number; // one-way, ms
+  jitter: number; // up to this many ms added to each message at random
+  bandwidth: number; // each peer's upload capacity in bytes/s, shared by all its links
+  slowShare: number; // chance that a peer, seeders included, has slowBandwidth instead
+  slowBandwidth: number;
+  loss: number; // chance that a message is lost; the bitfield sent on connect always arrives
+}
+
+export interface ChurnConfig {
+  joinWindow: number; // leechers join at uniformly random times within this many ms
+  meanSession: number | null; // mean time before a leecher leaves, finished or not; null = never early
+  seedTime: number | null; // how long a finished leecher keeps seeding; null = until the run ends
+}
+
+export interface SimulationConfig {
+  seed: number;
+  leechers: number;
+  seeders: number;
+  modelSize: number; // bytes
+  chunkSize: number;
+  chunksPerRequest: number;
+  maxPeers: number; // connections a peer accepts in total
+  targetNeighbors: number; // connections a peer opens itself
+  link: LinkConfig;
+  churn: ChurnConfig;
+  maxDuration: number; // simulated ms before the run is cut off
+}
+
+export const DEFAULT_SIMULATION: SimulationConfig = {
+  seed: 1,
+  leechers: 20,
+  seeders: 1,
+  modelSize: 2 * 1024 * 1024,
+  chunkSize: P2P_CONFIG.CHUNK_SIZE,
+  chunksPerRequest: P2P_CONFIG.CHUNKS_PER_REQUEST,
+  maxPeers: P2P_CONFIG.MAX_PEERS,
+  targetNeighbors: P2P_CONFIG.TARGET_NEIGHBORS,
+  link: { latency: 50, jitter: 20, bandwidth: 1024 * 1024, slowShare: 0, slowBandwidth: 128 * 1024, loss: 0 },
+  churn: { joinWindow: 10000, meanSession: null, seedTime: null },
+  maxDuration: 30 * 60 * 1000,
+};
+
+export interface DurationStats {
+  min: number;
+  median: number;
+  p90: number;
+  max: number;
+  mean: number;
+}
+
+export interface PipelineWindows {
+  fast: number | null; // mean request window that leechers ended with toward fast uploaders
+  slow: number | null; // the same toward peers on slowBandwidth
+}
+
+export interface SimulationReport {
+  seed: number;
+  simulatedTime: number; // ms
+  joined: number;
+  completed: number;
+  abandoned: number; // leechers that left before finishing
+  timeToComplete: DurationStats | null; // ms from join to completion
+  piecesReceived: number;
+  duplicatePieces: number;
+  duplicateRatio: number; // duplicates / pieces received
+  timeouts: number;
+  lostMessages: number;
+  seederUploadBytes: number;
+  seederLoad: number; // share of all piece bytes uploaded by the initial seeders
+  seederCopies: number; // model copies' worth uploaded by the initial seeders
+  pipelineWindows: PipelineWindows;
+}
+
+type SimMessage =
+  | { type: 'bitfield'; bitfield: Uint8Array }
+  | { type: 'have'; chunkIndex: number }
+  | { type: 'request'; chunkIndex: number }
+  | { type: 'cancel'; chunkIndex: number }
+  | { type: 'piece'; chunk: ModelChunk };
+
+interface OutgoingMessage {
+  to: string;
+  message: SimMessage;
+  size: number;
+  reliable: boolean;
+}
+
+interface SimPeer {
+  id: string;
+  isSeeder: boolean;
+  bandwidth: number; // upload capacity in bytes/s
+  manager: SwarmManager;
+  neighbors: Map<string, Uint8Array>; // peerId → what we know of its bitfield
+  online: boolean;
+  joinedAt: number;
+  completedAt: number | null;
+  control: OutgoingMessage[];
+  data: OutgoingMessage[];
+  transmitting: boolean;
+  uploadedPieceBytes: number;
+}
+
+const CONTROL_MESSAGE_SIZE = 64;
+
+export class SwarmSimulator {
+  private readonly queue = new EventQueue();
+  private readonly random: Random;
+  private readonly peers = new Map<string, SimPeer>();
+  private modelId = '';
+  private metadata: ModelPackage | null = null;
+  private chunks: ModelChunk[] = [];
+  private joinedLeechers = 0;
+  private piecesReceived = 0;
+  private lostMessages = 0;
+  // Data channels are ordered, so jitter never lets a message overtake an earlier one
+  private lastArrival = new Map<string, number>(); // "from>to" → arrival time of the latest message
+
+  constructor(private readonly config: SimulationConfig) {
+    this.random = createRandom(config.seed);
+  }
+
+  public async run(): Promise<SimulationReport> {
+    await this.createModel();
+
+    for (let i = 0; i < this.config.seeders; i++) {
+      this.join(true);
+    }
+    for (let i = 0; i < this.config.leechers; i++) {
+      this.queue.schedule(this.random() * this.config.churn.joinWindow, () => this.join(false));
+    }
+
+    await this.queue.run(this.config.maxDuration, () => this.isFinished());
+    return this.report();
+  }
+
+  /**
+   * Random model content, chunked and hashed the way ModelSerializer does it
+   */
+  private async createModel(): Promise<void> {
+    const { modelSize, chunkSize } = this.config;
+    const data = new Uint8Array(modelSize);
+    for (let i = 0; i < modelSize; i++) {
+      data[i] = Math.floor(this.random() * 256);
+    }
+    this.modelId = await ModelSerializer.computeModelId(data);
+
+    const totalChunks = Math.ceil(modelSize / chunkSize);
+    const pieceHashes: string[] = [];
+    for (let i = 0; i < totalChunks; i++) {
+      const chunkData = data.slice(i * chunkSize, Math.min((i + 1) * chunkSize, modelSize)).buffer;
+      this.chunks.push({ modelId: this.modelId, index: i, total: totalChunks, data: chunkData });
+      pieceHashes.push(Utils.bufferToHex(await crypto.subtle.digest('SHA-256', chunkData)));
+    }
+
+    const origin = { x: 0, y: 0, z: 0 };
+    this.metadata = {
+      id: this.modelId,
+      placementId: 'simulated',
+      position: origin,
+      rotation: origin,
+      scale: { x: 1, y: 1, z: 1 },
+      metadata: {
+        timestamp: 0,
+        authorId: '',
+        authorKey: '',
+        totalSize: modelSize,
+        totalChunks,
+        pieceHashes,
+        rootHash: await ModelSerializer.computeMerkleRoot(pieceHashes),
+      },
+      signature: '',
+    };
+  }
+
+  private isFinished(): boolean {
+    if (this.joinedLeechers < this.config.leechers) return false;
+    for (const peer of this.peers.values()) {
+      if (peer.online && peer.completedAt === null) return false;
+    }
+    return true;
+  }
+
+  private join(isSeeder: boolean): void {
+    const id = isSeeder ? `seeder-${this.peers.size}` : `leecher-${this.peers.size}`;
+    const manager = new SwarmManager(null, {
+      now: () => this.queue.now(),
+      chunkSize: this.config.chunkSize,
+      initialPipelineDepth: this.config.chunksPerRequest,
+    });
+    manager.createSwarm(this.modelId, this.metadata!, isSeeder ? this.chunks : []);
+    const { bandwidth, slowShare, slowBandwidth } = this.config.link;
+    // Only draw when slow peers are asked for, so other runs keep their random sequence
+    const isSlow = slowShare > 0 && this.random() < slowShare;
+
+    const peer: SimPeer = {
+      id,
+      isSeeder,
+      bandwidth: isSlow ? slowBandwidth : bandwidth,
+      manager,
+      neighbors: new Map(),
+      online: true,
+      joinedAt: this.queue.now(),
+      completedAt: isSeeder ? this.queue.now() : null,
+      control: [],
+      data: [],
+      transmitting: false,
+      uploadedPieceBytes: 0,
+    };
+    this.peers.set(id, peer);
+    if (isSeeder) return;
+
+    this.joinedLeechers++;
+    this.fillNeighbors(peer);
+    this.scheduleTick(peer);
+
+    const { meanSession } = this.config.churn;
+    if (meanSession !== null) {
+      this.queue.schedule(exponential(this.random, meanSession), () => this.leave(peer));
+    }
+  }
+
+  private leave(peer: SimPeer): void {
+    if (!peer.online) return;
+    peer.online = false;
+    peer.control = [];
+    peer.data = [];
+
+    peer.neighbors.forEach((_, neighborId) => {
+      const neighbor = this.peers.get(neighborId)!;
+      neighbor.neighbors.delete(peer.id);
+      neighbor.manager.removePeer(peer.id);
+      this.fillNeighbors(neighbor);
+    });
+    peer.neighbors.clear();
+  }
+
+  /**
+   * Connects to random peers with free slots until TARGET_NEIGHBORS is reached
+   */
+  private fillNeighbors(peer: SimPeer): void {
+    if (!peer.online || peer.isSeeder) return;
+
+    const wanted = this.config.targetNeighbors - peer.neighbors.size;
+    if (wanted <= 0) return;
+
+    const candidates = Array.from(this.peers.values()).filter(other =>
+      other.online && other.id !== peer.id && !peer.neighbors.has(other.id) &&
+      other.neighbors.size < this.config.maxPeers
+    );
+    Utils.shuffle(candidates, this.random).slice(0, wanted).forEach(other => this.connect(peer, other));
+  }
+
+  private connect(a: SimPeer, b: SimPeer): void {
+    const empty = () => new Uint8Array(Math.ceil(this.chunks.length / 8));
+    a.neighbors.set(b.id, empty());
+    b.neighbors.set(a.id, empty());
+    this.sendBitfield(a, b.id);
+    this.sendBitfield(b, a.id);
+  }
+
+  private sendBitfield(from: SimPeer, to: string): void {
+    const swarm = from.manager.getSwarms().get(this.modelId)!;
+    const bitfield = Utils.createBitfield(swarm.ownChunks, swarm.totalChunks);
+    this.send(from, to, { type: 'bitfield', bitfield }, 'control', true);
+  }
+
+  private scheduleTick(peer: SimPeer): void {
+    this.queue.schedule(P2P_CONFIG.REQUEST_CHECK_INTERVAL, () => {
+      if (!peer.online || peer.completedAt !== null) return;
+      this.fillNeighbors(peer);
+      this.execute(peer, peer.manager.tick(this.getPeerBitfields(peer)));
+      this.scheduleTick(peer);
+    });
+  }
+
+  private getPeerBitfields(peer: SimPeer): Map<string, Map<string, Uint8Array>> {
+    const bitfields = new Map<string, Map<string, Uint8Array>>();
+    peer.neighbors.forEach((bitfield, neighborId) => {
+      bitfields.set(neighborId, new Map([[this.modelId, bitfield]]));
+    });
+    return bitfields;
+  }
+
+  private execute(peer: SimPeer, actions: SwarmAction[]): void {
+    for (const action of actions) {
+      switch (action.type) {
+        case 'request_chunk':
+          this.send(peer, action.peerId!, { type: 'request', chunkIndex: action.chunkIndex! }, 'control');
+          break;
+        case 'cancel_request':
+          this.send(peer, action.peerId!, { type: 'cancel', chunkIndex: action.chunkIndex! }, 'control');
+          break;
+        case 'send_piece':
+          this.send(peer, action.peerId!, { type: 'piece', chunk: action.chunk! }, 'data');
+          break;
+        case 'broadcast_have':
+          peer.neighbors.forEach((_, neighborId) => {
+            this.send(peer, neighborId, { type: 'have', chunkIndex: action.chunkIndex! }, 'control');
+          });
+          break;
+        case 'download_complete':
+          this.handleComplete(peer);
+          break;
+      }
+    }
+  }
+
+  private handleComplete(peer: SimPeer): void {
+    peer.completedAt = this.queue.now();
+
+    const { seedTime } = this.config.churn;
+    if (seedTime !== null) {
+      this.queue.schedule(seedTime, () => this.leave(peer));
+    }
+  }
+
+  /**
+   * Queues a message on the sender's uplink
+   */
+  private send(from: SimPeer, to: string, message: SimMessage, priority: 'control' | 'data', reliable = false): void {
+    if (!from.online) return;
+
+    const size = message.type === 'piece'
+      ? message.chunk.data.byteLength + CONTROL_MESSAGE_SIZE
+      : message.type === 'bitfield' ? message.bitfield.byteLength + CONTROL_MESSAGE_SIZE : CONTROL_MESSAGE_SIZE;
+    (priority === 'control' ? from.control : from.data).push({ to, message, size, reliable });
+    if (!from.transmitting) {
+      this.transmitNext(from);
+    }
+  }
+
+  private transmitNext(peer: SimPeer): void {
+    const next = peer.control.shift() ?? peer.data.shift();
+    if (!next || !peer.online) {
+      peer.transmitting = false;
+      return;
+    }
+
+    peer.transmitting = true;
+    this.queue.schedule(next.size / peer.bandwidth * 1000, () => {
+      if (!peer.online) {
+        peer.transmitting = false;
+        return;
+      }
+      if (next.message.type === 'piece') {
+        peer.uploadedPieceBytes += next.message.chunk.data.byteLength;
+      }
+      this.propagate(peer.id, next);
+      this.transmitNext(peer);
+    });
+  }
+
+  private propagate(fromId: string, outgoing: OutgoingMessage): void {
+    const { latency, jitter, loss } = this.config.link;
+    if (!outgoing.reliable && this.random() < loss) {
+      this.lostMessages++;
+      return;
+    }
+    const link = `${fromId}>${outgoing.to}`;
+    const arrival = Math.max(this.queue.now() + latency + this.random() * jitter, this.lastArrival.get(link) ?? 0);
+    this.lastArrival.set(link, arrival);
+    this.queue.schedule(arrival - this.queue.now(), () => this.receive(fromId, outgoing.to, outgoing.message));
+  }
+
+  private async receive(fromId: string, toId: string, message: SimMessage): Promise<void> {
+    const peer = this.peers.get(toId)!;
+    // The connection may have closed while the message was in flight
+    if (!peer.online || !peer.neighbors.has(fromId)) return;
+
+    switch (message.type) {
+      case 'bitfield': {
+        peer.neighbors.set(fromId, message.bitfield);
+        if (peer.completedAt === null) {
+          this.execute(peer, peer.manager.requestChunksFromPeer(fromId, this.modelId, message.bitfield));
+        }
+        break;
+      }
+      case 'have':
+        Utils.setBit(peer.neighbors.get(fromId)!, message.chunkIndex);
+        break;
+      case 'request': {
+        const action = peer.manager.handleRequest(fromId, { modelId: this.modelId, chunkIndex: message.chunkIndex });
+        if (action) this.execute(peer, [action]);
+        break;
+      }
+      case 'cancel':
+        peer.data = peer.data.filter(queued =>
+          !(queued.to === fromId && queued.message.type === 'piece' && queued.message.chunk.index === message.chunkIndex)
+        );
+        break;
+      case 'piece': {
+        this.piecesReceived++;
+        const { chunk } = message;
+        const actions = await peer.manager.handlePiece(fromId, {
+          type: 'piece',
+          modelId: this.modelId,
+          chunkIndex: chunk.index,
+          data: chunk.data,
+        }, this.getPeerBitfields(peer));
+        this.execute(peer, actions);
+        break;
+      }
+    }
+  }
+
+  private report(): SimulationReport {
+    const leechers = Array.from(this.peers.values()).filter(peer => !peer.isSeeder);
+    const completed = leechers.filter(peer => peer.completedAt !== null);
+    const durations = completed.map(peer => peer.completedAt! - peer.joinedAt);
+
+    let duplicatePieces = 0;
+    let timeouts = 0;
+    let totalUpload = 0;
+    let seederUpload = 0;
+    this.peers.forEach(peer => {
+      const stats = peer.manager.getSwarms().get(this.modelId)!.stats;
+      duplicatePieces += stats.duplicatePieces;
+      timeouts += stats.timeouts;
+      totalUpload += peer.uploadedPieceBytes;
+      if (peer.isSeeder) seederUpload += peer.uploadedPieceBytes;
+    });
+
+    return {
+      seed: this.config.seed,
+      simulatedTime: this.queue.now(),
+      joined: leechers.length,
+      completed: completed.length,
+      abandoned: leechers.filter(peer => !peer.online && peer.completedAt === null).length,
+      timeToComplete: summarize(durations),
+      piecesReceived: this.piecesReceived,
+      duplicatePieces,
+      duplicateRatio: this.piecesReceived > 0 ? duplicatePieces / this.piecesReceived : 0,
+      timeouts,
+      lostMessages: this.lostMessages,
+      seederUploadBytes: seederUpload,
+      seederLoad: totalUpload > 0 ? seederUpload / totalUpload : 0,
+      seederCopies: seederUpload / this.config.modelSize,
+      pipelineWindows: this.getPipelineWindows(leechers),
+    };
+  }
+
+  private getPipelineWindows(leechers: SimPeer[]): PipelineWindows {
+    const fast: number[] = [];
+    const slow: number[] = [];
+    leechers.forEach(leecher => {
+      this.peers.forEach(uploader => {
+        const performance = leecher.manager.getPeerPerformance(uploader.id);
+        if (!performance || performance.samples === 0) return;
+        (uploader.bandwidth < this.config.link.bandwidth ? slow : fast).push(performance.window);
+      });
+    });
+
+    const mean = (values: number[]) => values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : null;
+    return { fast: mean(fast), slow: mean(slow) };
+  }
+}
+
+function summarize(values: number[]): DurationStats | null {
+  if (values.length === 0) return null;
+
+  const sorted = values.slice().sort((a, b) => a - b);
+  const at = (fraction: number) => sorted[Math.min(sorted.length - 1, Math.floor(fraction * sorted.length))];
+  return {
+    min: sorted[0],
+    median: at(0.5),
+    p90: at(0.9),
+    max: sorted[sorted.length - 1],
+    mean: sorted.reduce((sum, value) => sum + value, 0) / sorted.length,
+  };
+}
+
+export function runSimulation(config: SimulationConfig): Promise<SimulationReport> {
+  return new SwarmSimulator(config).run();
+}
@@ -0,0 +1,81 @@
+/**
+ * Model sink for the browser: loads downloaded models into the Babylon.js
+ * scene and shows placeholders for the ones still on their way
+ */
+
+import { Vector3 } from "@babylonjs/core/Maths/math";
+import { Scene } from "@babylonjs/core/scene";
+import { SceneLoader } from "@babylonjs/core/Loading/sceneLoader";
+import { PBRMaterial } from "@babylonjs/core/Materials/PBR/pbrMaterial";
+import { ShadowGenerator } from '@babylonjs/core/Lights/Shadows/shadowGenerator';
+import "@babylonjs/core/Lights/Shadows/shadowGeneratorSceneComponent";
+import { ModelSerializer, ModelPackage, ModelChunk, Vec3 } from './model-serializer';
+import { ModelPlaceholder } from './placeholder';
+import { logger } from './logger';
+import type { ModelSink } from './transport';
+
+export class BabylonModelSink implements ModelSink {
+  private placeholders = new Map<string, ModelPlaceholder>(); // placementId -> placeholder
+
+  constructor(
+    private readonly scene: Scene,
+    private readonly shadowGenerator: ShadowGenerator
+  ) {}
+
+  public showPlaceholder(modelPackage: ModelPackage, progress: number | null): void {
+    if (this.placeholders.has(modelPackage.placementId)) return;
+
+    const placeholder = new ModelPlaceholder(this.scene, modelPackage);
+    placeholder.setProgress(progress);
+    this.placeholders.set(modelPackage.placementId, placeholder);
+  }
+
+  public updatePlaceholder(placementId: string, progress: number): void {
+    this.placeholders.get(placementId)?.setProgress(progress);
+  }
+
+  public removePlaceholder(placementId: string): void {
+    this.placeholders.get(placementId)?.dispose();
+    this.placeholders.delete(placementId);
+  }
+
+  /**
+   * Loads a placement of a fully downloaded model into the scene
+   */
+  public async placeModel(modelPackage: ModelPackage, chunks: ModelChunk[]): Promise<boolean> {
+    const blobUrl = ModelSerializer.createBlobFromChunks(chunks);
+
+    try {
+      const result = await SceneLoader.ImportMeshAsync("", blobUrl, "", this.scene, undefined, ".glb");
+      if (result.meshes.length === 0) return false;
+
+      const rootMesh = result.meshes[0];
+      rootMesh.position = new Vector3(modelPackage.position.x, modelPackage.position.y, modelPackage.position.z);
+      rootMesh.rotation = new Vector3(modelPackage.rotation.x, modelPackage.rotation.y, modelPackage.rotation.z);
+      rootMesh.scaling = new Vector3(modelPackage.scale.x, modelPackage.scale.y, modelPackage.scale.z);
+      // The real mesh is in place, so the stand-in can go in the same frame
+      this.removePlaceholder(modelPackage.placementId);
+      result.meshes.forEach(mesh => {
+        if (mesh.material instanceof PBRMaterial) {
+          mesh.material.unlit = true;
+        }
+        this.shadowGenerator.addShadowCaster(mesh);
+      });
+      return true;
+    } catch (error) {
+      logger.error('Failed to load model:', error);
+      return false;
+    } finally {
+      URL.revokeObjectURL(blobUrl);
+    }
+  }
+
+  public getViewerPosition(): Vec3 {
+    return this.scene.activeCamera?.position ?? { x: 0, y: 0, z: 0 };
+  }
+
+  public dispose(): void {
+    this.placeholders.forEach(placeholder => placeholder.dispose());
+    this.placeholders.clear();
+  }
+}
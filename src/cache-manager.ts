@@ -0,0 +1,201 @@
+/**
+ * Keeps locally stored models within a byte budget. Models are evicted least
+ * recently used first, with distance from the player counting as extra age;
+ * models the user authored are pinned and never evicted. Eviction drops a
+ * model's chunks but keeps its placements, so it is fetched from peers again
+ * after a reload.
+ */
+
+import type { ChunkStore } from './chunk-store';
+import type { ModelPackage } from './model-serializer';
+import { DownloadQueue, WorldPosition } from './download-queue';
+import { P2P_CONFIG } from './constants';
+import { logger } from './logger';
+
+export interface CachedModel {
+  modelId: string;
+  size: number; // bytes; unfinished downloads count at their full size
+  lastAccess: number;
+  distance: number; // to the nearest placement
+  pinned: boolean;
+  prompt?: string;
+}
+
+export interface CacheUsage {
+  usedBytes: number;
+  budgetBytes: number; // the configured budget, lowered to fit the storage quota
+  quotaBytes: number | null; // from navigator.storage.estimate, where available
+}
+
+interface CacheEntry {
+  size: number;
+  lastAccess: number;
+  lastWritten: number; // lastAccess as last written to storage
+  placements: ModelPackage[];
+}
+
+export class CacheManager {
+  private entries = new Map<string, CacheEntry>(); // modelId -> entry
+  private storedAccessTimes = new Map<string, number>(); // from the previous session
+  private ownAuthorId: string | null = null;
+  private evicting: Promise<string[]> = Promise.resolve([]);
+
+  constructor(
+    private readonly store: ChunkStore,
+    private budget: number = P2P_CONFIG.CACHE_BUDGET,
+    private readonly now: () => number = Date.now
+  ) {}
+
+  /**
+   * Reads last access times kept from earlier sessions. Call before tracking restored models.
+   */
+  public async load(): Promise<void> {
+    this.storedAccessTimes = await this.store.loadAccessTimes();
+  }
+
+  /**
+   * Models signed with this author ID are pinned
+   */
+  public setOwnAuthorId(authorId: string): void {
+    this.ownAuthorId = authorId;
+  }
+
+  public setBudget(bytes: number): void {
+    this.budget = Math.max(0, bytes);
+  }
+
+  /**
+   * Records a model whose chunks are (being) written to storage, along with one of its placements
+   */
+  public track(modelPackage: ModelPackage): void {
+    let entry = this.entries.get(modelPackage.id);
+    if (!entry) {
+      const stored = this.storedAccessTimes.get(modelPackage.id);
+      entry = { size: modelPackage.metadata.totalSize, lastAccess: stored ?? this.now(), lastWritten: stored ?? 0, placements: [] };
+      this.entries.set(modelPackage.id, entry);
+      this.writeAccessTime(modelPackage.id, entry);
+    }
+    this.addPlacement(modelPackage);
+  }
+
+  /**
+   * Records another placement of a tracked model; untracked models are ignored
+   */
+  public addPlacement(modelPackage: ModelPackage): void {
+    const entry = this.entries.get(modelPackage.id);
+    if (entry && !entry.placements.some(placement => placement.placementId === modelPackage.placementId)) {
+      entry.placements.push(modelPackage);
+    }
+  }
+
+  /**
+   * Marks a model as used now
+   */
+  public touch(modelId: string): void {
+    const entry = this.entries.get(modelId);
+    if (!entry) return;
+
+    entry.lastAccess = this.now();
+    this.writeAccessTime(modelId, entry);
+  }
+
+  public forget(modelId: string): void {
+    this.entries.delete(modelId);
+  }
+
+  public getUsedBytes(): number {
+    let used = 0;
+    this.entries.forEach(entry => used += entry.size);
+    return used;
+  }
+
+  public async getUsage(): Promise<CacheUsage> {
+    const quota = await CacheManager.estimateQuota();
+    return { usedBytes: this.getUsedBytes(), budgetBytes: this.effectiveBudget(quota), quotaBytes: quota };
+  }
+
+  /**
+   * Cached models in the order they would be evicted, pinned ones last
+   */
+  public list(position: WorldPosition): CachedModel[] {
+    const now = this.now();
+    const rank = (model: CachedModel) => now - model.lastAccess + model.distance * P2P_CONFIG.CACHE_DISTANCE_WEIGHT;
+
+    return Array.from(this.entries.entries())
+      .map(([modelId, entry]) => ({
+        modelId,
+        size: entry.size,
+        lastAccess: entry.lastAccess,
+        distance: DownloadQueue.nearestDistance(entry.placements, position),
+        pinned: this.isPinned(entry),
+        prompt: entry.placements[0]?.metadata.prompt,
+      }))
+      .sort((a, b) => Number(a.pinned) - Number(b.pinned) || rank(b) - rank(a));
+  }
+
+  /**
+   * Evicts models until the cache fits its budget. `canEvict` protects models
+   * the caller still needs, such as unfinished downloads. Resolves to the
+   * evicted modelIds.
+   */
+  public enforce(position: WorldPosition, canEvict: (modelId: string) => boolean): Promise<string[]> {
+    // One pass at a time, so two passes never pick the same victims
+    this.evicting = this.evicting.catch(() => []).then(() => this.evict(position, canEvict));
+    return this.evicting;
+  }
+
+  private async evict(position: WorldPosition, canEvict: (modelId: string) => boolean): Promise<string[]> {
+    const budget = this.effectiveBudget(await CacheManager.estimateQuota());
+    const models = this.list(position);
+    // Protected models that are not pinned are unfinished downloads. They count once they
+    // finish, so they never push out finished models only to be evicted themselves.
+    let used = models
+      .filter(model => model.pinned || canEvict(model.modelId))
+      .reduce((sum, model) => sum + model.size, 0);
+    const evicted: string[] = [];
+
+    for (const model of models) {
+      if (used <= budget) break;
+      if (model.pinned || !canEvict(model.modelId)) continue;
+
+      await this.store.deleteChunks(model.modelId);
+      this.entries.delete(model.modelId);
+      used -= model.size;
+      evicted.push(model.modelId);
+      logger.info(`Evicted ${model.modelId} from the cache (${model.size} bytes, ${Math.round(model.distance)} units away)`);
+    }
+
+    if (used > budget) {
+      logger.warn(`Cache holds ${used} bytes, over its ${budget} byte budget, but nothing else can be evicted`);
+    }
+    return evicted;
+  }
+
+  private isPinned(entry: CacheEntry): boolean {
+    return this.ownAuthorId !== null && entry.placements.some(placement => placement.metadata.authorId === this.ownAuthorId);
+  }
+
+  /**
+   * Persists an access time, at most once per CACHE_ACCESS_WRITE_INTERVAL per model
+   */
+  private writeAccessTime(modelId: string, entry: CacheEntry): void {
+    if (entry.lastAccess - entry.lastWritten < P2P_CONFIG.CACHE_ACCESS_WRITE_INTERVAL) return;
+
+    entry.lastWritten = entry.lastAccess;
+    this.store.saveAccessTime(modelId, entry.lastAccess).catch(error => logger.error(`Failed to store access time of ${modelId}:`, error));
+  }
+
+  private effectiveBudget(quota: number | null): number {
+    return quota === null ? this.budget : Math.min(this.budget, Math.floor(quota * P2P_CONFIG.CACHE_QUOTA_FRACTION));
+  }
+
+  private static async estimateQuota(): Promise<number | null> {
+    if (typeof navigator === 'undefined' || !navigator.storage?.estimate) return null;
+
+    try {
+      return (await navigator.storage.estimate()).quota ?? null;
+    } catch {
+      return null;
+    }
+  }
+}
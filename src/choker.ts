@@ -0,0 +1,106 @@
+/**
+ * Upload slot management (BitTorrent-style choking).
+ * A fixed number of interested peers are unchoked: most slots go to the peers
+ * that upload to us fastest (tit-for-tat), and one rotating "optimistic" slot
+ * gives newcomers a chance to prove themselves.
+ */
+
+import { P2P_CONFIG } from './constants';
+
+export interface ChokeCandidate {
+  id: string;
+  peerInterested: boolean;
+}
+
+export class Choker {
+  private uploadSlots: number = P2P_CONFIG.UPLOAD_SLOTS;
+  private downloadedFrom = new Map<string, number>(); // peerId → recent bytes received
+  private uploadedTo = new Map<string, number>(); // peerId → recent bytes sent
+  private optimisticPeer: string | null = null;
+  private lastOptimisticRotation = 0;
+
+  public getUploadSlots(): number {
+    return this.uploadSlots;
+  }
+
+  public setUploadSlots(slots: number): void {
+    this.uploadSlots = Math.max(0, Math.floor(slots));
+  }
+
+  public recordDownload(peerId: string, bytes: number): void {
+    this.downloadedFrom.set(peerId, (this.downloadedFrom.get(peerId) || 0) + bytes);
+  }
+
+  public recordUpload(peerId: string, bytes: number): void {
+    this.uploadedTo.set(peerId, (this.uploadedTo.get(peerId) || 0) + bytes);
+  }
+
+  public getRecentDownload(peerId: string): number {
+    return this.downloadedFrom.get(peerId) || 0;
+  }
+
+  public getRecentUpload(peerId: string): number {
+    return this.uploadedTo.get(peerId) || 0;
+  }
+
+  public isOptimistic(peerId: string): boolean {
+    return this.optimisticPeer === peerId;
+  }
+
+  public removePeer(peerId: string): void {
+    this.downloadedFrom.delete(peerId);
+    this.uploadedTo.delete(peerId);
+    if (this.optimisticPeer === peerId) {
+      this.optimisticPeer = null;
+    }
+  }
+
+  /**
+   * Chooses which peers to unchoke. Byte counters decay each round so the
+   * ranking follows recent behaviour rather than lifetime totals.
+   */
+  public rechoke(peers: ChokeCandidate[], now: number = Date.now()): Set<string> {
+    const unchoked = new Set<string>();
+    const interested = peers.filter(peer => peer.peerInterested);
+    if (this.uploadSlots === 0 || interested.length === 0) {
+      this.decayCounters();
+      return unchoked;
+    }
+
+    // Prefer peers that upload to us; when nobody does (we are only seeding),
+    // prefer the peers we have been able to upload to fastest
+    const ranked = [...interested].sort((a, b) =>
+      (this.getRecentDownload(b.id) - this.getRecentDownload(a.id)) ||
+      (this.getRecentUpload(b.id) - this.getRecentUpload(a.id))
+    );
+
+    const regularSlots = this.uploadSlots > 1 ? this.uploadSlots - 1 : this.uploadSlots;
+    ranked.slice(0, regularSlots).forEach(peer => unchoked.add(peer.id));
+
+    if (unchoked.size < this.uploadSlots) {
+      const optimisticCandidates = interested.filter(peer => !unchoked.has(peer.id));
+      const currentStillValid = optimisticCandidates.some(peer => peer.id === this.optimisticPeer);
+      const rotationDue = now - this.lastOptimisticRotation >= P2P_CONFIG.OPTIMISTIC_UNCHOKE_INTERVAL;
+
+      if ((!currentStillValid || rotationDue) && optimisticCandidates.length > 0) {
+        const pick = optimisticCandidates[Math.floor(Math.random() * optimisticCandidates.length)];
+        this.optimisticPeer = pick.id;
+        this.lastOptimisticRotation = now;
+      } else if (optimisticCandidates.length === 0) {
+        this.optimisticPeer = null;
+      }
+
+      if (this.optimisticPeer) {
+        unchoked.add(this.optimisticPeer);
+      }
+    }
+
+    this.decayCounters();
+    return unchoked;
+  }
+
+  private decayCounters(): void {
+    this.downloadedFrom.forEach((bytes, peerId) => this.downloadedFrom.set(peerId, bytes / 2));
+    this.uploadedTo.forEach((bytes, peerId) => this.uploadedTo.set(peerId, bytes / 2));
+  }
+}
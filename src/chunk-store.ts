@@ -0,0 +1,189 @@
+/**
+ * Persistent storage for verified chunks and placement metadata, so models
+ * survive page reloads. SwarmManager writes through a ChunkStore; the
+ * browser uses IndexedDB and everything else can use the in-memory store.
+ */
+
+import type { ModelPackage, ModelChunk } from './model-serializer';
+
+export interface ChunkStore {
+  savePlacement(modelPackage: ModelPackage): Promise<void>;
+  saveChunk(chunk: ModelChunk): Promise<void>;
+  /** Every stored placement, across all models */
+  loadPlacements(): Promise<ModelPackage[]>;
+  loadChunks(modelId: string): Promise<ModelChunk[]>;
+  /** Removes a model's placements and chunks */
+  deleteModel(modelId: string): Promise<void>;
+  /** Removes a model's chunks but keeps its placements, so it can be fetched again */
+  deleteChunks(modelId: string): Promise<void>;
+  saveAccessTime(modelId: string, time: number): Promise<void>;
+  /** modelId -> last access time, for every model that has one */
+  loadAccessTimes(): Promise<Map<string, number>>;
+}
+
+const DB_NAME = 'p2p-mesh-sharing';
+const DB_VERSION = 2;
+const PLACEMENTS = 'placements';
+const CHUNKS = 'chunks';
+const ACCESS = 'access';
+const BY_MODEL = 'byModel';
+
+interface AccessRecord {
+  modelId: string;
+  time: number;
+}
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function transactionDone(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
+
+export class IndexedDBChunkStore implements ChunkStore {
+  private db: Promise<IDBDatabase> | null = null;
+
+  constructor(private readonly name: string = DB_NAME) {}
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.db) {
+      const request = indexedDB.open(this.name, DB_VERSION);
+      request.onupgradeneeded = (event) => {
+        const db = request.result;
+        if (event.oldVersion < 1) {
+          db.createObjectStore(PLACEMENTS, { keyPath: 'placementId' }).createIndex(BY_MODEL, 'id');
+          db.createObjectStore(CHUNKS, { keyPath: ['modelId', 'index'] }).createIndex(BY_MODEL, 'modelId');
+        }
+        if (event.oldVersion < 2) {
+          db.createObjectStore(ACCESS, { keyPath: 'modelId' });
+        }
+      };
+      this.db = requestToPromise(request);
+      // Let a later call retry rather than caching the failure
+      this.db.catch(() => { this.db = null; });
+    }
+    return this.db;
+  }
+
+  public async savePlacement(modelPackage: ModelPackage): Promise<void> {
+    const transaction = (await this.open()).transaction(PLACEMENTS, 'readwrite');
+    transaction.objectStore(PLACEMENTS).put(modelPackage);
+    await transactionDone(transaction);
+  }
+
+  public async saveChunk(chunk: ModelChunk): Promise<void> {
+    const transaction = (await this.open()).transaction(CHUNKS, 'readwrite');
+    transaction.objectStore(CHUNKS).put(chunk);
+    await transactionDone(transaction);
+  }
+
+  public async loadPlacements(): Promise<ModelPackage[]> {
+    const transaction = (await this.open()).transaction(PLACEMENTS, 'readonly');
+    return requestToPromise(transaction.objectStore(PLACEMENTS).getAll());
+  }
+
+  public async loadChunks(modelId: string): Promise<ModelChunk[]> {
+    const transaction = (await this.open()).transaction(CHUNKS, 'readonly');
+    return requestToPromise(transaction.objectStore(CHUNKS).index(BY_MODEL).getAll(modelId));
+  }
+
+  public async deleteModel(modelId: string): Promise<void> {
+    await this.deleteFrom([PLACEMENTS, CHUNKS], modelId);
+  }
+
+  public async deleteChunks(modelId: string): Promise<void> {
+    await this.deleteFrom([CHUNKS], modelId);
+  }
+
+  public async saveAccessTime(modelId: string, time: number): Promise<void> {
+    const transaction = (await this.open()).transaction(ACCESS, 'readwrite');
+    const record: AccessRecord = { modelId, time };
+    transaction.objectStore(ACCESS).put(record);
+    await transactionDone(transaction);
+  }
+
+  public async loadAccessTimes(): Promise<Map<string, number>> {
+    const transaction = (await this.open()).transaction(ACCESS, 'readonly');
+    const records: AccessRecord[] = await requestToPromise(transaction.objectStore(ACCESS).getAll());
+    return new Map(records.map(record => [record.modelId, record.time]));
+  }
+
+  /**
+   * Deletes a model's records from the given stores, along with its access time
+   */
+  private async deleteFrom(storeNames: string[], modelId: string): Promise<void> {
+    const transaction = (await this.open()).transaction([...storeNames, ACCESS], 'readwrite');
+    const range = IDBKeyRange.only(modelId);
+    storeNames.forEach(storeName => {
+      const index = transaction.objectStore(storeName).index(BY_MODEL);
+      index.openKeyCursor(range).onsuccess = (event) => {
+        const cursor = (event.target as IDBRequest<IDBCursor | null>).result;
+        if (cursor) {
+          transaction.objectStore(storeName).delete(cursor.primaryKey);
+          cursor.continue();
+        }
+      };
+    });
+    transaction.objectStore(ACCESS).delete(modelId);
+    await transactionDone(transaction);
+  }
+}
+
+/**
+ * Keeps everything in memory: nothing survives the process, but the client
+ * behaves the same way as with real storage
+ */
+export class MemoryChunkStore implements ChunkStore {
+  private placements = new Map<string, ModelPackage>(); // placementId -> placement
+  private chunks = new Map<string, Map<number, ModelChunk>>(); // modelId -> index -> chunk
+  private accessTimes = new Map<string, number>(); // modelId -> last access time
+
+  public async savePlacement(modelPackage: ModelPackage): Promise<void> {
+    this.placements.set(modelPackage.placementId, modelPackage);
+  }
+
+  public async saveChunk(chunk: ModelChunk): Promise<void> {
+    let chunks = this.chunks.get(chunk.modelId);
+    if (!chunks) {
+      chunks = new Map();
+      this.chunks.set(chunk.modelId, chunks);
+    }
+    chunks.set(chunk.index, chunk);
+  }
+
+  public async loadPlacements(): Promise<ModelPackage[]> {
+    return Array.from(this.placements.values());
+  }
+
+  public async loadChunks(modelId: string): Promise<ModelChunk[]> {
+    return Array.from(this.chunks.get(modelId)?.values() ?? []);
+  }
+
+  public async deleteModel(modelId: string): Promise<void> {
+    this.placements.forEach((placement, placementId) => {
+      if (placement.id === modelId) this.placements.delete(placementId);
+    });
+    await this.deleteChunks(modelId);
+  }
+
+  public async deleteChunks(modelId: string): Promise<void> {
+    this.chunks.delete(modelId);
+    this.accessTimes.delete(modelId);
+  }
+
+  public async saveAccessTime(modelId: string, time: number): Promise<void> {
+    this.accessTimes.set(modelId, time);
+  }
+
+  public async loadAccessTimes(): Promise<Map<string, number>> {
+    return new Map(this.accessTimes);
+  }
+}
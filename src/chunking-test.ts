@@ -12,6 +12,7 @@
  */
 
 import { ModelSerializer } from "./model-serializer";
+import { AuthorIdentity } from "./identity";
 import { Vector3 } from "@babylonjs/core/Maths/math";
 
 /**
@@ -62,7 +63,8 @@ export async function testBasicChunking() {
     position,
     rotation,
     scale,
-    { prompt: "test model", authorId: "tester" }
+    { prompt: "test model" },
+    await AuthorIdentity.loadOrCreate()
   );
   
   console.log(`Created ${chunks.length} chunks`);
@@ -72,7 +74,7 @@ export async function testBasicChunking() {
   console.log("\n2. Verifying chunk integrity...");
   let validChunks = 0;
   for (const chunk of chunks) {
-    if (ModelSerializer.verifyChunk(chunk)) {
+    if (await ModelSerializer.verifyChunk(chunk, modelPackage.metadata.pieceHashes[chunk.index])) {
       validChunks++;
     } else {
       console.error(`Chunk ${chunk.index} failed integrity check!`);
@@ -119,6 +121,9 @@ export async function testBasicChunking() {
   console.log(`Rotation: (${modelPackage.rotation.x}, ${modelPackage.rotation.y}, ${modelPackage.rotation.z})`);
   console.log(`Scale: (${modelPackage.scale.x}, ${modelPackage.scale.y}, ${modelPackage.scale.z})`);
   
+  const signatureValid = await ModelSerializer.verifySignature(modelPackage);
+  console.log(signatureValid ? `Signature valid (author ${modelPackage.metadata.authorId})` : "Signature INVALID!");
+  
   // Cleanup
   URL.revokeObjectURL(modelUrl);
   URL.revokeObjectURL(blobUrl);
@@ -145,7 +150,8 @@ export async function testRealisticModel() {
     position,
     rotation,
     scale,
-    { prompt: "realistic model", authorId: "tester" }
+    { prompt: "realistic model" },
+    await AuthorIdentity.loadOrCreate()
   );
   
   const chunkTime = performance.now() - startTime;
@@ -197,7 +203,8 @@ export async function testWithActualModel(modelPath: string = "models/test_model
       position,
       rotation,
       scale,
-      { prompt: "actual model test", authorId: "tester" }
+      { prompt: "actual model test" },
+      await AuthorIdentity.loadOrCreate()
     );
     
     const chunkTime = performance.now() - startTime;
@@ -209,7 +216,10 @@ export async function testWithActualModel(modelPath: string = "models/test_model
     
     // Verify all chunks
     console.log("\nVerifying chunks...");
-    const allValid = chunks.every(chunk => ModelSerializer.verifyChunk(chunk));
+    const results = await Promise.all(
+      chunks.map(chunk => ModelSerializer.verifyChunk(chunk, modelPackage.metadata.pieceHashes[chunk.index]))
+    );
+    const allValid = results.every(Boolean);
     console.log(allValid ? "All chunks valid" : "Some chunks invalid");
     
     // Reassemble
@@ -281,7 +291,8 @@ export async function quickTest() {
     new Vector3(0, 0, 0),
     new Vector3(0, 0, 0),
     new Vector3(1, 1, 1),
-    { prompt: "quick", authorId: "test" }
+    { prompt: "quick" },
+    await AuthorIdentity.loadOrCreate()
   );
   
   console.log(`${chunks.length} chunks created`);
@@ -3,17 +3,59 @@
  */
 
 export const P2P_CONFIG = {
-  MAX_PEERS: 50,
+  MAX_PEERS: 50, // hard cap, including connections other peers open to us
+  TARGET_NEIGHBORS: 8, // connections we dial until we have, counting ones other peers opened to us
+  NEIGHBOR_ROTATION_INTERVAL: 120000,
   REQUEST_TIMEOUT: 30000,
+  REQUEST_CHECK_INTERVAL: 1000,
   DISCONNECT_GRACE_PERIOD: 10000,
   ICE_RESTART_GRACE_PERIOD: 5000,
+  ORPHAN_CANDIDATE_TTL: 10000, // how long candidates for a not-yet-created peer are held
   PEER_STATUS_UPDATE_INTERVAL: 2000,
   RECONNECT_DELAY: 3000,
   CONNECTION_REQUEST_DELAY: 1000,
+  PEX_INTERVAL: 60000,
+  PEX_MAX_PEERS: 50, // peer IDs per pex message
+  HANDSHAKE_TIMEOUT: 10000,
   
   // Data transfer
   CHUNK_SIZE: 16 * 1024,
-  CHUNKS_PER_REQUEST: 5,
+  CHUNKS_PER_REQUEST: 5, // initial per-peer request window, adapted to measured throughput
+  MIN_PIPELINE_DEPTH: 2,
+  MAX_PIPELINE_DEPTH: 64,
+  PEER_STATS_SMOOTHING: 0.25,
+  ENDGAME_THRESHOLD: 10, // remaining chunks at which endgame mode starts
+  
+  // Area of interest
+  AOI_RADIUS: 40, // models placed within this distance of the player download immediately
+  AOI_UPDATE_INTERVAL: 2000,
+  BACKGROUND_DOWNLOADS: 1, // concurrent downloads allowed for models outside the radius
+  
+  // Upload slots (choking)
+  UPLOAD_SLOTS: 4,
+  RECHOKE_INTERVAL: 10000,
+  OPTIMISTIC_UNCHOKE_INTERVAL: 30000,
+  
+  // Send queue (data channel backpressure)
+  SEND_BUFFER_HIGH_WATERMARK: 256 * 1024,
+  SEND_BUFFER_LOW_WATERMARK: 64 * 1024,
+  
+  // Bandwidth limits (null = unlimited)
+  UPLOAD_LIMIT: null as number | null, // bytes per second
+  DOWNLOAD_LIMIT: null as number | null, // bytes per second
+  BANDWIDTH_BURST_SECONDS: 1,
+  SEEDING_IDLE_TIMEOUT: 5 * 60 * 1000, // no user input for this long counts as idle
+  
+  // Local model cache
+  CACHE_BUDGET: 500 * 1024 * 1024, // bytes of stored models
+  CACHE_QUOTA_FRACTION: 0.5, // share of the browser's storage quota the cache may use
+  CACHE_DISTANCE_WEIGHT: 30000, // ms of extra age per unit of distance from the player, when ranking evictions
+  CACHE_ACCESS_WRITE_INTERVAL: 60000, // how often a model's last access time is written to storage
+  
+  // Peer reputation (penalty points: corrupt piece 10, malformed message 5, unsolicited piece 2, timeout 1)
+  REPUTATION_SNUB_THRESHOLD: 10,
+  REPUTATION_BAN_THRESHOLD: 30,
+  REPUTATION_SNUB_DURATION: 60000,
   
   // WebRTC configuration
   ICE_CANDIDATE_POOL_SIZE: 10,
@@ -49,6 +91,12 @@ export const SCENE_CONFIG = {
   PREVIEW_ALPHA: 0.5,
   TARGET_MODEL_SIZE: 2,
   
+  // Placeholders for models still downloading
+  PLACEHOLDER_ALPHA: 0.25,
+  PLACEHOLDER_COLOR: { r: 0.6, g: 0.6, b: 0.9 },
+  PLACEHOLDER_LABEL_WIDTH: 2.5,
+  PLACEHOLDER_LABEL_HEIGHT: 0.6,
+  
   // Scene colors
   GROUND_COLOR: { r: 0.7, g: 0.7, b: 0.7 },
   BOX_COLOR: { r: 0.1, g: 0.2, b: 0.5 },
@@ -0,0 +1,104 @@
+/**
+ * Area-of-interest download scheduling. Models whose placements lie within a
+ * radius of the player start immediately; the rest wait here and are started
+ * nearest-first as the player moves or background slots free up.
+ */
+
+import type { ModelPackage } from './model-serializer';
+
+export interface WorldPosition {
+  x: number;
+  y: number;
+  z: number;
+}
+
+export interface QueuedDownload {
+  modelId: string;
+  distance: number;
+  placements: ModelPackage[];
+}
+
+export class DownloadQueue {
+  private queued = new Map<string, ModelPackage[]>(); // modelId → placements
+
+  public get size(): number {
+    return this.queued.size;
+  }
+
+  public has(modelId: string): boolean {
+    return this.queued.has(modelId);
+  }
+
+  /**
+   * Queues a placement. Returns false if it was already queued.
+   */
+  public add(modelPackage: ModelPackage): boolean {
+    const placements = this.queued.get(modelPackage.id);
+    if (!placements) {
+      this.queued.set(modelPackage.id, [modelPackage]);
+      return true;
+    }
+    if (placements.some(placement => placement.placementId === modelPackage.placementId)) {
+      return false;
+    }
+    placements.push(modelPackage);
+    return true;
+  }
+
+  /**
+   * Drops a model from the queue, returning its placements
+   */
+  public remove(modelId: string): ModelPackage[] {
+    const placements = this.queued.get(modelId) ?? [];
+    this.queued.delete(modelId);
+    return placements;
+  }
+
+  public clear(): void {
+    this.queued.clear();
+  }
+
+  /**
+   * Ground-plane distance; the world is flat, so height is ignored
+   */
+  public static distance(modelPackage: ModelPackage, position: WorldPosition): number {
+    return Math.hypot(modelPackage.position.x - position.x, modelPackage.position.z - position.z);
+  }
+
+  /**
+   * A model is as near as its nearest placement
+   */
+  public static nearestDistance(placements: ModelPackage[], position: WorldPosition): number {
+    return Math.min(...placements.map(placement => DownloadQueue.distance(placement, position)));
+  }
+
+  /**
+   * Queued models ordered nearest-first
+   */
+  public getEntries(position: WorldPosition): QueuedDownload[] {
+    return Array.from(this.queued.entries())
+      .map(([modelId, placements]) => ({
+        modelId,
+        placements,
+        distance: DownloadQueue.nearestDistance(placements, position),
+      }))
+      .sort((a, b) => a.distance - b.distance);
+  }
+
+  /**
+   * Removes and returns the models to start now: everything within `radius`,
+   * plus the nearest others while `freeSlots` allows
+   */
+  public takeReady(position: WorldPosition, radius: number, freeSlots: number): QueuedDownload[] {
+    const ready: QueuedDownload[] = [];
+    for (const entry of this.getEntries(position)) {
+      if (entry.distance > radius) {
+        if (freeSlots <= 0) break;
+        freeSlots--;
+      }
+      ready.push(entry);
+      this.queued.delete(entry.modelId);
+    }
+    return ready;
+  }
+}
@@ -0,0 +1,104 @@
+/**
+ * Persistent author identity backed by a WebCrypto ECDSA keypair
+ */
+
+import * as Utils from './utils';
+import { logger } from './logger';
+
+const KEY_ALGORITHM: EcKeyImportParams = { name: 'ECDSA', namedCurve: 'P-256' };
+const SIGN_ALGORITHM: EcdsaParams = { name: 'ECDSA', hash: 'SHA-256' };
+const STORAGE_KEY = 'p2p-author-identity';
+
+interface StoredIdentity {
+  publicKey: JsonWebKey;
+  privateKey: JsonWebKey;
+}
+
+export class AuthorIdentity {
+  /**
+   * @param id - Hex SHA-256 fingerprint of the raw public key (the stable author ID)
+   * @param publicKey - Base64 raw public key, shipped with every signed package
+   */
+  private constructor(
+    public readonly id: string,
+    public readonly publicKey: string,
+    private readonly privateKey: CryptoKey
+  ) {}
+
+  /**
+   * Loads the keypair from localStorage, creating and storing one on first use.
+   * Falls back to a session-only identity when storage is unavailable.
+   */
+  static async loadOrCreate(): Promise<AuthorIdentity> {
+    const stored = this.readStored();
+    if (stored) {
+      try {
+        const privateKey = await crypto.subtle.importKey('jwk', stored.privateKey, KEY_ALGORITHM, true, ['sign']);
+        const publicKey = await crypto.subtle.importKey('jwk', stored.publicKey, KEY_ALGORITHM, true, ['verify']);
+        return this.fromKeys(publicKey, privateKey);
+      } catch (error) {
+        logger.warn('Stored author identity is unreadable, generating a new one:', error);
+      }
+    }
+
+    const keyPair = await crypto.subtle.generateKey(KEY_ALGORITHM, true, ['sign', 'verify']);
+    this.writeStored({
+      publicKey: await crypto.subtle.exportKey('jwk', keyPair.publicKey),
+      privateKey: await crypto.subtle.exportKey('jwk', keyPair.privateKey),
+    });
+
+    return this.fromKeys(keyPair.publicKey, keyPair.privateKey);
+  }
+
+  /**
+   * Signs a string, returning a base64 signature
+   */
+  async sign(data: string): Promise<string> {
+    const signature = await crypto.subtle.sign(SIGN_ALGORITHM, this.privateKey, new TextEncoder().encode(data));
+    return Utils.arrayBufferToBase64(signature);
+  }
+
+  /**
+   * Verifies a base64 signature over a string against a base64 raw public key
+   */
+  static async verify(publicKey: string, signature: string, data: string): Promise<boolean> {
+    try {
+      const key = await crypto.subtle.importKey('raw', Utils.base64ToArrayBuffer(publicKey), KEY_ALGORITHM, false, ['verify']);
+      return await crypto.subtle.verify(SIGN_ALGORITHM, key, Utils.base64ToArrayBuffer(signature), new TextEncoder().encode(data));
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Derives the author ID for a base64 raw public key
+   */
+  static async fingerprint(publicKey: string): Promise<string> {
+    const digest = await crypto.subtle.digest('SHA-256', Utils.base64ToArrayBuffer(publicKey));
+    return Utils.bufferToHex(digest);
+  }
+
+  private static async fromKeys(publicKey: CryptoKey, privateKey: CryptoKey): Promise<AuthorIdentity> {
+    const rawPublicKey = Utils.arrayBufferToBase64(await crypto.subtle.exportKey('raw', publicKey));
+    const id = await this.fingerprint(rawPublicKey);
+    logger.info('Author identity:', id);
+    return new AuthorIdentity(id, rawPublicKey, privateKey);
+  }
+
+  private static readStored(): StoredIdentity | null {
+    try {
+      const raw = globalThis.localStorage?.getItem(STORAGE_KEY);
+      return raw ? JSON.parse(raw) as StoredIdentity : null;
+    } catch {
+      return null;
+    }
+  }
+
+  private static writeStored(identity: StoredIdentity): void {
+    try {
+      globalThis.localStorage?.setItem(STORAGE_KEY, JSON.stringify(identity));
+    } catch (error) {
+      logger.warn('Could not persist author identity, it will only last this session:', error);
+    }
+  }
+}
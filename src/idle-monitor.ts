@@ -0,0 +1,31 @@
+/**
+ * Tracks whether the local user is still around, based on input events.
+ * Outside a browser there is no user to wait for, so it never goes idle.
+ */
+
+import { P2P_CONFIG } from './constants';
+
+const ACTIVITY_EVENTS = ['pointerdown', 'pointermove', 'keydown', 'wheel', 'touchstart'] as const;
+
+export class IdleMonitor {
+  private lastActivity = Date.now();
+  private readonly hasWindow = typeof window !== 'undefined';
+  private readonly onActivity = () => { this.lastActivity = Date.now(); };
+
+  constructor(private readonly timeout: number = P2P_CONFIG.SEEDING_IDLE_TIMEOUT) {
+    if (!this.hasWindow) return;
+    ACTIVITY_EVENTS.forEach(event => window.addEventListener(event, this.onActivity, { passive: true }));
+  }
+
+  /**
+   * Hidden tabs receive no input, so they go idle once the timeout passes
+   */
+  public isIdle(now: number = Date.now()): boolean {
+    return this.hasWindow && now - this.lastActivity >= this.timeout;
+  }
+
+  public dispose(): void {
+    if (!this.hasWindow) return;
+    ACTIVITY_EVENTS.forEach(event => window.removeEventListener(event, this.onActivity));
+  }
+}
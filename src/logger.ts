@@ -2,34 +2,56 @@
  * Centralized logging utility with log levels
  */
 
-type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+const LOG_LEVELS: Record<LogLevel, number> = { debug: 0, info: 1, warn: 2, error: 3 };
 
 class Logger {
+  private level: LogLevel = 'debug';
+
+  /**
+   * Drops messages below `level`; the p2p, webrtc and swarm channels count as info
+   */
+  setLevel(level: LogLevel): void {
+    this.level = level;
+  }
+
+  private enabled(level: LogLevel): boolean {
+    return LOG_LEVELS[level] >= LOG_LEVELS[this.level];
+  }
+
   debug(message: string, ...args: any[]): void {
+    if (!this.enabled('debug')) return;
     console.log(`[DEBUG] ${message}`, ...args);
   }
 
   info(message: string, ...args: any[]): void {
+    if (!this.enabled('info')) return;
     console.log(`[INFO] ${message}`, ...args);
   }
 
   warn(message: string, ...args: any[]): void {
+    if (!this.enabled('warn')) return;
     console.warn(`[WARN] ${message}`, ...args);
   }
 
   error(message: string, ...args: any[]): void {
+    if (!this.enabled('error')) return;
     console.error(`[ERROR] ${message}`, ...args);
   }
 
   p2p(message: string, ...args: any[]): void {
+    if (!this.enabled('info')) return;
     console.log(`[P2P] ${message}`, ...args);
   }
 
   webrtc(message: string, ...args: any[]): void {
+    if (!this.enabled('info')) return;
     console.log(`[WebRTC] ${message}`, ...args);
   }
 
   swarm(message: string, ...args: any[]): void {
+    if (!this.enabled('info')) return;
     console.log(`[Swarm] ${message}`, ...args);
   }
 }
@@ -1,4 +1,8 @@
 import P2PClient from "./p2p-client";
+import { WebRTCHandler } from "./webrtc-handler";
+import { WebSocketTracker, DEFAULT_TRACKER_URL } from "./websocket-tracker";
+import { BabylonModelSink } from "./babylon-sink";
+import { IndexedDBChunkStore } from "./chunk-store";
 import { Engine } from "@babylonjs/core/Engines/engine";
 import { Scene } from "@babylonjs/core/scene";
 import { DirectionalLight } from "@babylonjs/core/Lights/directionalLight";
@@ -695,10 +699,45 @@ camera.keysRight.push(68); // D
 
 const {scene, shadowGenerator} = createScene();
 
-const p2pClient = new P2PClient(scene, shadowGenerator);
+const p2pClient = new P2PClient({
+  tracker: new WebSocketTracker(import.meta.env.VITE_WEBSOCKET_URL || DEFAULT_TRACKER_URL),
+  createPeerTransport: (signaling, getLocalId) => new WebRTCHandler(signaling, getLocalId),
+  sink: new BabylonModelSink(scene, shadowGenerator),
+  store: typeof indexedDB !== 'undefined' ? new IndexedDBChunkStore() : undefined,
+});
 
 (window as any).p2pClient = p2pClient;
 
+// World snapshots from the console: exportWorld() saves the layout, exportWorld(true) bundles the models too
+(window as any).exportWorld = (withModels = false) => {
+  const blob = withModels
+    ? new Blob([p2pClient.exportWorldArchive()], { type: 'application/octet-stream' })
+    : new Blob([JSON.stringify(p2pClient.exportWorld(), null, 2)], { type: 'application/json' });
+  const link = document.createElement('a');
+  link.href = URL.createObjectURL(blob);
+  link.download = withModels ? 'world.p2pw' : 'world.json';
+  link.click();
+  // Revoking straight away can cancel the download in some browsers
+  setTimeout(() => URL.revokeObjectURL(link.href), 0);
+};
+
+(window as any).importWorld = () => {
+  const input = document.createElement('input');
+  input.type = 'file';
+  input.accept = '.json,.p2pw';
+  input.addEventListener('change', async () => {
+    const file = input.files?.[0];
+    if (!file) return;
+    try {
+      await p2pClient.importWorld(await file.arrayBuffer());
+    } catch (error) {
+      logger.error('Failed to import world:', error);
+      alert('Failed to import world. Check console for details.');
+    }
+  });
+  input.click();
+};
+
 p2pClient.setOnPeerConnected((peerId) => {
   logger.info(`Connected to peer: ${peerId}`);
   updateHudWithP2PStatus();
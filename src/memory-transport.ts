@@ -0,0 +1,370 @@
+/**
+ * In-process implementations of the transport interfaces, so P2PClient can
+ * run in Node without a tracker server, WebRTC or a 3D scene. A MemoryNetwork
+ * plays the tracker and carries peer links between the clients created on it.
+ */
+
+import { P2P_CONFIG } from './constants';
+import { logger } from './logger';
+import * as Utils from './utils';
+import type { TrackerMessage, OutgoingTrackerMessage, OutgoingSignal, PeerInfo } from './message-types';
+import type { ModelPackage, ModelChunk, Vec3 } from './model-serializer';
+import type { SignalingTransport } from './signaling';
+import type { Peer } from './types';
+import type {
+  TrackerConnection, PeerTransport, PeerChannel, ChannelState, PeerConnectionInfo, ModelSink, P2PClientOptions,
+} from './transport';
+
+export class MemoryNetwork {
+  private nextId = 1;
+  private trackers = new Map<string, MemoryTrackerConnection>(); // clientId -> connection
+  private swarms = new Map<string, Map<string, boolean>>(); // modelId -> peerId -> complete
+  private transports = new Set<MemoryPeerTransport>();
+
+  /**
+   * @param latency delay in ms applied to every tracker message and peer message
+   */
+  constructor(private readonly latency: number = 0) {}
+
+  /**
+   * Everything a P2PClient needs to join this network
+   */
+  public createClientOptions(sink: ModelSink = new MemoryModelSink()): P2PClientOptions {
+    return {
+      tracker: new MemoryTrackerConnection(this),
+      createPeerTransport: (_signaling: SignalingTransport, getLocalId: () => string | null) => {
+        const transport = new MemoryPeerTransport(this, getLocalId);
+        this.transports.add(transport);
+        return transport;
+      },
+      sink,
+    };
+  }
+
+  public schedule(callback: () => void): void {
+    setTimeout(callback, this.latency);
+  }
+
+  public join(tracker: MemoryTrackerConnection): string {
+    const clientId = `peer-${this.nextId++}`;
+    this.trackers.set(clientId, tracker);
+    return clientId;
+  }
+
+  public leave(clientId: string): void {
+    if (!this.trackers.delete(clientId)) return;
+
+    this.swarms.forEach((swarm, modelId) => {
+      if (!swarm.delete(clientId)) return;
+      this.sendToSwarm(modelId, { type: 'peer-left-swarm', modelId, peerId: clientId }, clientId);
+      if (swarm.size === 0) this.swarms.delete(modelId);
+    });
+  }
+
+  public removeTransport(transport: MemoryPeerTransport): void {
+    this.transports.delete(transport);
+  }
+
+  public findTransport(peerId: string): MemoryPeerTransport | null {
+    for (const transport of this.transports) {
+      if (transport.localId === peerId) return transport;
+    }
+    return null;
+  }
+
+  /**
+   * Handles a message a client sent to the tracker, mirroring server/index.js
+   */
+  public handleTrackerMessage(from: string, message: OutgoingTrackerMessage): void {
+    switch (message.type) {
+      case 'announce': {
+        const { modelId, complete } = message;
+        let swarm = this.swarms.get(modelId);
+        if (!swarm) {
+          swarm = new Map();
+          this.swarms.set(modelId, swarm);
+        }
+        swarm.set(from, !!complete);
+
+        const peers: PeerInfo[] = Array.from(swarm.entries())
+          .filter(([peerId]) => peerId !== from)
+          .map(([id, peerComplete]) => ({ id, complete: peerComplete }));
+        const seeders = Array.from(swarm.values()).filter(Boolean).length;
+        this.sendTo(from, {
+          type: 'announce-response',
+          modelId,
+          seeders,
+          leechers: swarm.size - seeders,
+          peers,
+          complete: seeders,
+          incomplete: swarm.size - seeders,
+        });
+        this.sendToSwarm(modelId, {
+          type: 'peer-joined-swarm',
+          modelId,
+          peerId: from,
+          complete: !!complete,
+          peers: [{ id: from, complete: !!complete }],
+        }, from);
+        break;
+      }
+      case 'request-connection': {
+        const exclude = new Set<string>(Array.isArray(message.exclude) ? message.exclude : []);
+        const candidates = Array.from(this.trackers.keys()).filter(id => id !== from && !exclude.has(id));
+        Utils.shuffle(candidates)
+          .slice(0, message.count ?? P2P_CONFIG.TARGET_NEIGHBORS)
+          .forEach(id => this.sendTo(id, { type: 'request-connection', from }));
+        break;
+      }
+      case 'offer':
+      case 'answer':
+      case 'ice-candidate':
+        this.sendTo(message.to, { ...message, from });
+        break;
+      default:
+        logger.warn(`Memory tracker: unknown message type ${(message as { type?: unknown }).type}`);
+    }
+  }
+
+  private sendTo(clientId: string, message: TrackerMessage): void {
+    const tracker = this.trackers.get(clientId);
+    if (tracker) {
+      this.schedule(() => tracker.deliver(message));
+    }
+  }
+
+  private sendToSwarm(modelId: string, message: TrackerMessage, excludePeerId: string): void {
+    this.swarms.get(modelId)?.forEach((_, peerId) => {
+      if (peerId !== excludePeerId) this.sendTo(peerId, message);
+    });
+  }
+}
+
+export class MemoryTrackerConnection implements TrackerConnection {
+  private clientId: string | null = null;
+
+  public onOpen: () => void = () => {};
+  public onMessage: (message: TrackerMessage) => void = () => {};
+  public onClose: () => void = () => {};
+
+  constructor(private readonly network: MemoryNetwork) {}
+
+  public connect(): void {
+    const clientId = this.network.join(this);
+    this.clientId = clientId;
+    this.network.schedule(() => {
+      if (this.clientId !== clientId) return;
+      this.onOpen();
+      this.onMessage({ type: 'welcome', clientId });
+    });
+  }
+
+  public isOpen(): boolean {
+    return this.clientId !== null;
+  }
+
+  public send(message: OutgoingTrackerMessage): boolean {
+    if (!this.clientId) return false;
+    const from = this.clientId;
+    this.network.schedule(() => this.network.handleTrackerMessage(from, message));
+    return true;
+  }
+
+  public close(): void {
+    if (!this.clientId) return;
+    this.network.leave(this.clientId);
+    this.clientId = null;
+    this.onClose();
+  }
+
+  public deliver(message: TrackerMessage): void {
+    if (this.clientId) this.onMessage(message);
+  }
+}
+
+/**
+ * One end of an in-memory link. Messages arrive at the other end after the
+ * network latency; nothing is ever buffered, so backpressure never kicks in.
+ */
+export class MemoryChannel implements PeerChannel {
+  public readyState: ChannelState = 'connecting';
+  public readonly bufferedAmount = 0;
+  public bufferedAmountLowThreshold = 0;
+  public onbufferedamountlow: ((event: Event) => void) | null = null;
+  public remote: MemoryChannel | null = null;
+
+  constructor(
+    private readonly network: MemoryNetwork,
+    private readonly onData: (data: string | ArrayBuffer) => void,
+    private readonly onClosed: () => void
+  ) {}
+
+  public send(data: string | ArrayBuffer): void {
+    if (this.readyState !== 'open') {
+      throw new Error(`Cannot send on a channel that is ${this.readyState}`);
+    }
+    const remote = this.remote;
+    // Copy so the sender can reuse its buffer, as a real channel would allow
+    const payload = typeof data === 'string' ? data : data.slice(0);
+    this.network.schedule(() => {
+      if (remote?.readyState === 'open') remote.onData(payload);
+    });
+  }
+
+  public close(): void {
+    if (this.readyState === 'closed') return;
+    this.readyState = 'closed';
+    this.onClosed();
+    this.remote?.close();
+  }
+}
+
+export class MemoryPeerTransport implements PeerTransport {
+  private peers = new Map<string, Peer>();
+
+  public onPeerConnected: (peerId: string) => void = () => {};
+  public onPeerDisconnected: (peerId: string) => void = () => {};
+  public onDataChannelMessage: (peerId: string, data: string | ArrayBuffer) => void = () => {};
+  public onDataChannelOpen: (peerId: string) => void = () => {};
+  public isPeerAllowed: (peerId: string) => boolean = () => true;
+
+  constructor(
+    private readonly network: MemoryNetwork,
+    private readonly getLocalId: () => string | null
+  ) {}
+
+  public get localId(): string | null {
+    return this.getLocalId();
+  }
+
+  public getPeer(peerId: string): Peer | undefined {
+    return this.peers.get(peerId);
+  }
+
+  public getAllPeers(): Map<string, Peer> {
+    return this.peers;
+  }
+
+  public getConnectionInfo(peerId: string): PeerConnectionInfo | null {
+    const peer = this.peers.get(peerId);
+    if (!peer) return null;
+    return { connectionState: peer.dataChannel?.readyState === 'open' ? 'connected' : 'new', candidateTypes: [] };
+  }
+
+  public async connect(peerId: string): Promise<Peer | null> {
+    const existing = this.peers.get(peerId);
+    if (existing) return existing;
+
+    const localId = this.localId;
+    const remote = this.network.findTransport(peerId);
+    if (!localId || !remote || !this.canAccept(peerId) || !remote.canAccept(localId)) {
+      logger.debug(`Memory transport: cannot connect ${localId} to ${peerId}`);
+      return null;
+    }
+
+    const local = this.addPeer(peerId, true);
+    const other = remote.addPeer(localId, false);
+    const localChannel = local.dataChannel as MemoryChannel;
+    const otherChannel = other.dataChannel as MemoryChannel;
+    localChannel.remote = otherChannel;
+    otherChannel.remote = localChannel;
+
+    this.network.schedule(() => {
+      if (localChannel.readyState !== 'connecting') return;
+      localChannel.readyState = 'open';
+      otherChannel.readyState = 'open';
+      this.onPeerConnected(peerId);
+      remote.onPeerConnected(localId);
+      this.onDataChannelOpen(peerId);
+      remote.onDataChannelOpen(localId);
+    });
+    return local;
+  }
+
+  /**
+   * Links are made directly by connect(), so there is nothing to negotiate
+   */
+  public async handleSignal(_from: string, _signal: OutgoingSignal): Promise<void> {}
+
+  public handlePeerDisconnect(peerId: string): void {
+    this.peers.get(peerId)?.dataChannel?.close();
+  }
+
+  public disconnectAll(): void {
+    Array.from(this.peers.keys()).forEach(peerId => this.handlePeerDisconnect(peerId));
+    this.network.removeTransport(this);
+  }
+
+  private canAccept(peerId: string): boolean {
+    return !this.peers.has(peerId) && this.peers.size < P2P_CONFIG.MAX_PEERS && this.isPeerAllowed(peerId);
+  }
+
+  private addPeer(peerId: string, isInitiator: boolean): Peer {
+    const channel = new MemoryChannel(
+      this.network,
+      data => {
+        const peer = this.peers.get(peerId);
+        if (peer) peer.lastActivity = Date.now();
+        this.onDataChannelMessage(peerId, data);
+      },
+      () => {
+        if (this.peers.get(peerId)?.dataChannel !== channel) return;
+        this.peers.delete(peerId);
+        this.onPeerDisconnected(peerId);
+      }
+    );
+    const peer: Peer = {
+      id: peerId,
+      dataChannel: channel,
+      isInitiator,
+      bitfield: new Map(),
+      lastActivity: Date.now(),
+      amChoking: true,
+      amInterested: false,
+      peerChoking: true,
+      peerInterested: false
+    };
+    this.peers.set(peerId, peer);
+    return peer;
+  }
+}
+
+/**
+ * Records what would have been shown instead of rendering it
+ */
+export class MemoryModelSink implements ModelSink {
+  public readonly placed = new Map<string, ModelPackage>(); // placementId -> placement
+  public readonly placeholders = new Map<string, number | null>(); // placementId -> progress
+
+  constructor(public position: Vec3 = { x: 0, y: 0, z: 0 }) {}
+
+  public showPlaceholder(modelPackage: ModelPackage, progress: number | null): void {
+    if (!this.placeholders.has(modelPackage.placementId)) {
+      this.placeholders.set(modelPackage.placementId, progress);
+    }
+  }
+
+  public updatePlaceholder(placementId: string, progress: number): void {
+    if (this.placeholders.has(placementId)) {
+      this.placeholders.set(placementId, progress);
+    }
+  }
+
+  public removePlaceholder(placementId: string): void {
+    this.placeholders.delete(placementId);
+  }
+
+  public async placeModel(modelPackage: ModelPackage, _chunks: ModelChunk[]): Promise<boolean> {
+    this.placeholders.delete(modelPackage.placementId);
+    this.placed.set(modelPackage.placementId, modelPackage);
+    return true;
+  }
+
+  public getViewerPosition(): Vec3 {
+    return this.position;
+  }
+
+  public dispose(): void {
+    this.placeholders.clear();
+  }
+}
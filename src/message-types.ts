@@ -61,11 +61,30 @@ export interface IceCandidateMessage {
   candidate: RTCIceCandidateInit;
 }
 
+// Offer/answer/candidate as sent; the tracker or relaying peer fills in `from`
+export type OutgoingSignal =
+  | Omit<OfferMessage, 'from'>
+  | Omit<AnswerMessage, 'from'>
+  | Omit<IceCandidateMessage, 'from'>;
+
 export interface RequestConnectionMessage {
   type: 'request-connection';
   from: string;
 }
 
+// Asks the tracker to have `count` random peers, other than `exclude`, connect to us
+export interface NeighborRequestMessage {
+  type: 'request-connection';
+  count?: number;
+  exclude?: string[];
+}
+
+// Everything a client sends to the tracker
+export type OutgoingTrackerMessage =
+  | AnnounceMessage
+  | NeighborRequestMessage
+  | OutgoingSignal;
+
 export type TrackerMessage =
   | WelcomeMessage
   | AnnounceResponseMessage
@@ -77,6 +96,14 @@ export type TrackerMessage =
   | RequestConnectionMessage;
 
 // P2P Data Channel Messages
+export interface HandshakeMessage {
+  type: 'handshake';
+  protocolVersion: number;
+  minProtocolVersion: number;
+  clientId: string;
+  capabilities: string[];
+}
+
 export interface BitfieldMessage {
   type: 'bitfield';
   modelId: string;
@@ -95,12 +122,50 @@ export interface RequestMessage {
   chunkIndex: number;
 }
 
+export interface ChokeMessage {
+  type: 'choke' | 'unchoke';
+}
+
+export interface InterestMessage {
+  type: 'interested' | 'not-interested';
+}
+
+export interface CancelMessage {
+  type: 'cancel';
+  modelId: string;
+  chunkIndex: number;
+}
+
+// Signaling forwarded by a peer connected to both ends. The relaying peer
+// overwrites `from` with the ID of the peer it received the message from.
+export interface RelayMessage {
+  type: 'relay';
+  to: string;
+  from?: string;
+  signal: OutgoingSignal;
+}
+
+// Peer exchange: other peers the sender is connected to in a model's swarm
+export interface PexMessage {
+  type: 'pex';
+  modelId: string;
+  peers: string[];
+}
+
+// Pieces travel as binary frames (see wire-format.ts) when both peers
+// support 'binary-pieces'; JsonPieceMessage is the base64 fallback
 export interface PieceMessage {
+  type: 'piece';
+  modelId: string;
+  chunkIndex: number;
+  data: ArrayBuffer;
+}
+
+export interface JsonPieceMessage {
   type: 'piece';
   modelId: string;
   chunkIndex: number;
   data: string;
-  checksum: number;
 }
 
 export interface MetadataMessage {
@@ -109,10 +174,16 @@ export interface MetadataMessage {
 }
 
 export type P2PMessage =
+  | HandshakeMessage
   | BitfieldMessage
   | HaveMessage
   | RequestMessage
-  | PieceMessage
+  | CancelMessage
+  | ChokeMessage
+  | InterestMessage
+  | PexMessage
+  | RelayMessage
+  | JsonPieceMessage
   | MetadataMessage;
 
 // Helper types
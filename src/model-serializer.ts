@@ -1,21 +1,36 @@
-import { Vector3 } from "@babylonjs/core/Maths/math";
 import { P2P_CONFIG } from './constants';
+import * as Utils from './utils';
+import { AuthorIdentity } from './identity';
 
 /**
- * Represents a serialized model ready for network transmission
+ * Represents a serialized model ready for network transmission.
+ * `id` identifies the content (SHA-256 of the GLB bytes) and is shared by every
+ * placement of the same model; `placementId` identifies this one placement.
+ * `signature` is the author's signature over the package manifest.
  */
+export interface Vec3 {
+  x: number;
+  y: number;
+  z: number;
+}
+
 export interface ModelPackage {
   id: string;
-  position: { x: number; y: number; z: number };
-  rotation: { x: number; y: number; z: number };
-  scale: { x: number; y: number; z: number };
+  placementId: string;
+  position: Vec3;
+  rotation: Vec3;
+  scale: Vec3;
   metadata: {
     prompt?: string;
     timestamp: number;
-    authorId: string;
+    authorId: string; // fingerprint of authorKey
+    authorKey: string; // base64 raw ECDSA P-256 public key
     totalSize: number;
     totalChunks: number;
+    pieceHashes: string[]; // hex SHA-256 of each chunk, in index order
+    rootHash: string; // Merkle root over pieceHashes
   };
+  signature: string;
 }
 
 /**
@@ -26,7 +41,6 @@ export interface ModelChunk {
   index: number;
   total: number;
   data: ArrayBuffer;
-  checksum: number; // Simple checksum for integrity
 }
 
 /**
@@ -42,14 +56,16 @@ export class ModelSerializer {
    * @param position - Position in 3D space
    * @param rotation - Rotation in 3D space
    * @param scale - Scale in 3D space
-   * @param metadata - Additional metadata (prompt, author, etc.)
+   * @param metadata - Additional metadata (prompt)
+   * @param author - Identity that signs the package
    */
   static async prepareModel(
     modelUrl: string,
-    position: Vector3,
-    rotation: Vector3,
-    scale: Vector3,
-    metadata: Partial<ModelPackage["metadata"]>
+    position: Vec3,
+    rotation: Vec3,
+    scale: Vec3,
+    metadata: Pick<Partial<ModelPackage["metadata"]>, "prompt">,
+    author: AuthorIdentity
   ): Promise<{ package: ModelPackage; chunks: ModelChunk[] }> {
     const response = await fetch(modelUrl);
     if (!response.ok) {
@@ -59,28 +75,42 @@ export class ModelSerializer {
     const arrayBuffer = await response.arrayBuffer();
     const modelData = new Uint8Array(arrayBuffer);
 
-    const modelId = this.generateModelId();
+    const modelId = await this.computeModelId(modelData);
+
+    const chunks = this.chunkModel(modelId, modelData);
+    const totalChunks = chunks.length;
+    const pieceHashes = await Promise.all(chunks.map(chunk => this.hashPiece(chunk.data)));
 
-    const totalChunks = Math.ceil(modelData.byteLength / this.CHUNK_SIZE);
     const modelPackage: ModelPackage = {
       id: modelId,
+      placementId: this.generatePlacementId(),
       position: { x: position.x, y: position.y, z: position.z },
       rotation: { x: rotation.x, y: rotation.y, z: rotation.z },
       scale: { x: scale.x, y: scale.y, z: scale.z },
       metadata: {
         prompt: metadata.prompt,
         timestamp: Date.now(),
-        authorId: metadata.authorId || "unknown",
+        authorId: author.id,
+        authorKey: author.publicKey,
         totalSize: modelData.byteLength,
         totalChunks,
+        pieceHashes,
+        rootHash: await this.computeMerkleRoot(pieceHashes),
       },
+      signature: "",
     };
-
-    const chunks = this.createChunks(modelId, modelData, totalChunks);
+    modelPackage.signature = await author.sign(this.createManifest(modelPackage));
 
     return { package: modelPackage, chunks };
   }
 
+  /**
+   * Splits a whole model into chunks the way prepareModel() does
+   */
+  static chunkModel(modelId: string, data: Uint8Array): ModelChunk[] {
+    return this.createChunks(modelId, data, Math.ceil(data.byteLength / this.CHUNK_SIZE));
+  }
+
   /**
    * Splits model data into chunks for transmission
    */
@@ -101,7 +131,6 @@ export class ModelSerializer {
         index: i,
         total: totalChunks,
         data: chunkData.buffer,
-        checksum: this.calculateChecksum(chunkData),
       });
     }
 
@@ -109,45 +138,114 @@ export class ModelSerializer {
   }
 
   /**
-   * Simple checksum for chunk integrity verification
-   * Uses Adler-32 style algorithm for speed
+   * Hashes a single piece (hex SHA-256)
+   */
+  private static async hashPiece(data: ArrayBuffer): Promise<string> {
+    const digest = await crypto.subtle.digest("SHA-256", data);
+    return Utils.bufferToHex(digest);
+  }
+
+  /**
+   * Computes a binary Merkle root over hex piece hashes.
+   * An odd node at the end of a level is promoted unchanged.
    */
-  private static calculateChecksum(data: Uint8Array): number {
-    let a = 1;
-    let b = 0;
-    const MOD = 65521;
-
-    for (let i = 0; i < data.length; i++) {
-      a = (a + data[i]) % MOD;
-      b = (b + a) % MOD;
+  static async computeMerkleRoot(pieceHashes: string[]): Promise<string> {
+    if (pieceHashes.length === 0) {
+      return this.hashPiece(new ArrayBuffer(0));
     }
 
-    return (b << 16) | a;
+    let level = pieceHashes;
+    while (level.length > 1) {
+      const next: string[] = [];
+      for (let i = 0; i < level.length; i += 2) {
+        if (i + 1 === level.length) {
+          next.push(level[i]);
+          continue;
+        }
+        const left = Utils.hexToBytes(level[i]);
+        const right = Utils.hexToBytes(level[i + 1]);
+        const combined = new Uint8Array(left.length + right.length);
+        combined.set(left, 0);
+        combined.set(right, left.length);
+        next.push(await this.hashPiece(combined.buffer));
+      }
+      level = next;
+    }
+
+    return level[0];
   }
 
   /**
-   * Verifies chunk integrity
+   * Checks that a package's piece hash list is complete and matches its Merkle root
    */
-  static verifyChunk(chunk: ModelChunk): boolean {
-    const calculatedChecksum = this.calculateChecksum(
-      new Uint8Array(chunk.data)
-    );
-    return calculatedChecksum === chunk.checksum;
+  static async verifyPieceHashes(modelPackage: ModelPackage): Promise<boolean> {
+    const { pieceHashes, rootHash, totalChunks } = modelPackage.metadata;
+    if (!Array.isArray(pieceHashes) || pieceHashes.length !== totalChunks) {
+      return false;
+    }
+    return (await this.computeMerkleRoot(pieceHashes)) === rootHash;
+  }
+
+  /**
+   * Builds the canonical string the author signs: content hash, placement,
+   * prompt and timestamp, with a fixed field order
+   */
+  static createManifest(modelPackage: ModelPackage): string {
+    const { id, placementId, position, rotation, scale, metadata } = modelPackage;
+    return JSON.stringify([
+      id,
+      metadata.rootHash,
+      metadata.totalSize,
+      metadata.totalChunks,
+      placementId,
+      [position.x, position.y, position.z],
+      [rotation.x, rotation.y, rotation.z],
+      [scale.x, scale.y, scale.z],
+      metadata.prompt ?? null,
+      metadata.timestamp,
+      metadata.authorId,
+    ]);
   }
 
   /**
-   * Generates a unique model ID
+   * Checks that the package was signed by the key its authorId claims
    */
-  private static generateModelId(): string {
+  static async verifySignature(modelPackage: ModelPackage): Promise<boolean> {
+    const { authorId, authorKey } = modelPackage.metadata;
+    if (!authorKey || !modelPackage.signature) return false;
+    if ((await AuthorIdentity.fingerprint(authorKey)) !== authorId) return false;
+    return AuthorIdentity.verify(authorKey, modelPackage.signature, this.createManifest(modelPackage));
+  }
+
+  /**
+   * Verifies chunk integrity against the trusted piece hash from the package
+   */
+  static async verifyChunk(chunk: ModelChunk, expectedHash: string | undefined): Promise<boolean> {
+    if (!expectedHash) return false;
+    return (await this.hashPiece(chunk.data)) === expectedHash;
+  }
+
+  /**
+   * Derives the content-addressed model ID (hex SHA-256 of the GLB bytes)
+   */
+  static async computeModelId(data: BufferSource): Promise<string> {
+    const digest = await crypto.subtle.digest("SHA-256", data);
+    return Utils.bufferToHex(digest);
+  }
+
+  /**
+   * Generates a unique ID for one placement of a model
+   */
+  private static generatePlacementId(): string {
     const timestamp = Date.now().toString(36);
     const random = Math.random().toString(36).substring(2, 11);
     return `${timestamp}-${random}`;
   }
 
   /**
-   * Creates a Blob URL from model chunks (for loading into Babylon.js)
+   * Reassembles model bytes from chunks in index order
    */
-  static createBlobFromChunks(chunks: ModelChunk[]): string {
+  static reassembleChunks(chunks: ModelChunk[]): Uint8Array<ArrayBuffer> {
     const sortedChunks = [...chunks].sort((a, b) => a.index - b.index);
 
     const totalSize = sortedChunks.reduce(
@@ -163,6 +261,14 @@ export class ModelSerializer {
       offset += chunk.data.byteLength;
     }
 
+    return reassembled;
+  }
+
+  /**
+   * Creates a Blob URL from model chunks (for loading into Babylon.js)
+   */
+  static createBlobFromChunks(chunks: ModelChunk[]): string {
+    const reassembled = this.reassembleChunks(chunks);
     const blob = new Blob([reassembled], { type: "model/gltf-binary" });
     return URL.createObjectURL(blob);
   }
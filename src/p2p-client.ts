@@ -1,79 +1,170 @@
-import { ModelSerializer, ModelPackage, ModelChunk } from './model-serializer';
-import { Vector3 } from "@babylonjs/core/Maths/math";
-import { Scene } from "@babylonjs/core/scene";
-import { SceneLoader } from "@babylonjs/core/Loading/sceneLoader";
-import { WebRTCHandler } from './webrtc-handler';
+import { ModelSerializer, ModelPackage, ModelChunk, Vec3 } from './model-serializer';
 import * as Utils from './utils';
 import { SwarmManager, SwarmAction } from './swarm-manager';
 import { P2P_CONFIG } from './constants';
 import { logger } from './logger';
-import type { TrackerMessage, P2PMessage } from './message-types';
-import { StandardMaterial } from "@babylonjs/core/Materials/standardMaterial";
-import { PBRMaterial } from "@babylonjs/core/Materials/PBR/pbrMaterial";
-import { Effect } from "@babylonjs/core/Materials/effect";
-import { ShadowGenerator } from '@babylonjs/core';
-import "@babylonjs/core/Lights/Shadows/shadowGeneratorSceneComponent";
+import { AuthorIdentity } from './identity';
+import type { TrackerMessage, P2PMessage, PieceMessage, HandshakeMessage, CancelMessage, PexMessage, RelayMessage } from './message-types';
+import { createHandshake, isCompatible, negotiateCapabilities, CAPABILITIES, PROTOCOL_VERSION } from './protocol';
+import { encodePieceFrame, decodeFrame } from './wire-format';
+import { PeerSendQueue, SendPriority } from './send-queue';
+import type { PeerDiagnostics, Peer, PeerPerformance, BandwidthLimits } from './types';
+import { Choker } from './choker';
+import { PeerReputation, PeerOffense, ReputationRecord } from './peer-reputation';
+import { TokenBucket } from './rate-limiter';
+import { IdleMonitor } from './idle-monitor';
+import { TrackerSignaling, PeerRelaySignaling, FallbackSignaling } from './signaling';
+import { DownloadQueue, QueuedDownload } from './download-queue';
+import { CacheManager, CachedModel, CacheUsage } from './cache-manager';
+import { WorldManifest, createWorldManifest, encodeWorldArchive, readWorld } from './world-manifest';
+import type { TrackerConnection, PeerTransport, ModelSink, P2PClientOptions } from './transport';
 
 export class P2PClient {
-  private ws: WebSocket | null = null;
+  private tracker: TrackerConnection;
   private clientId: string | null = null;
-  private webRTCHandler: WebRTCHandler | null = null;
+  private peerTransport: PeerTransport | null = null;
   private swarmManager: SwarmManager | null = null;
-  private scene: Scene;
-  private shadowGenerator: ShadowGenerator;
+  private sink: ModelSink;
+  private identity: Promise<AuthorIdentity>;
+  // Settles once models kept in storage are back in their swarms
+  private restored: Promise<void>;
+  // Keeps stored models within a byte budget; null when nothing is stored
+  private cache: CacheManager | null;
   
-  // Track which peers have received metadata for each model
-  private metadataSentTo = new Map<string, Set<string>>(); // modelId -> Set<peerId>
+  // Track which peers have received metadata for each placement
+  private metadataSentTo = new Map<string, Set<string>>(); // placementId -> Set<peerId>
+  
+  // Peers whose handshake we are still waiting for
+  private handshakeTimeouts = new Map<string, ReturnType<typeof setTimeout>>(); // peerId -> timeout
+  
+  // Outbound queues that hold messages while a peer's channel buffer is full
+  private sendQueues = new Map<string, PeerSendQueue>(); // peerId -> queue
+  
+  private requestScheduler: ReturnType<typeof setInterval>;
+  
+  // Upload slot management
+  private choker = new Choker();
+  private rechokeScheduler: ReturnType<typeof setInterval>;
+  private pexScheduler: ReturnType<typeof setInterval>;
+  
+  // Bounded overlay: peers we have heard of but are not necessarily connected to
+  private candidatePeers = new Set<string>();
+  private neighborScheduler: ReturnType<typeof setInterval>;
+  
+  // Bandwidth caps shared by all peers
+  private uploadLimiter = new TokenBucket(P2P_CONFIG.UPLOAD_LIMIT);
+  private downloadLimiter = new TokenBucket(P2P_CONFIG.DOWNLOAD_LIMIT);
+  private stopSeedingWhenIdle = false;
+  private idleMonitor = new IdleMonitor();
+  
+  // Models heard about but not yet downloading, started by distance from the player
+  private downloadQueue = new DownloadQueue();
+  private startingDownloads = new Set<string>(); // modelIds whose stored chunks are still being read
+  private aoiRadius: number = P2P_CONFIG.AOI_RADIUS;
+  private aoiScheduler: ReturnType<typeof setInterval>;
+  
+  // Neighbours that can forward signaling to a peer we are not connected to
+  private relayRoutes = new Map<string, Set<string>>(); // targetId -> Set<relay peerId>
+  
+  // Misbehaviour records; bans last for the whole session, across tracker reconnects
+  private reputation = new PeerReputation();
   
   private onPeerConnected?: (peerId: string) => void;
   private onPeerDisconnected?: (peerId: string) => void;
   private onModelReceived?: (modelPackage: ModelPackage) => void;
   private onDownloadProgress?: (modelId: string, progress: number) => void;
   
-  constructor(scene: Scene, shadowGenerator: ShadowGenerator) {
-    this.scene = scene;
-    const url = import.meta.env.VITE_WEBSOCKET_URL || 'wss://p2p-mesh-sharing.onrender.com';
-    logger.info("Connecting to tracker:", url);
-    this.connectToTracker(url);
-    this.shadowGenerator = shadowGenerator;
-    
-    window.addEventListener('beforeunload', () => {
-      this.disconnect();
-    });
+  constructor(options: P2PClientOptions) {
+    this.tracker = options.tracker;
+    this.sink = options.sink;
+    this.identity = AuthorIdentity.loadOrCreate();
+    // Swarms outlive tracker connections, so a reconnect loses no download progress. Peer links
+    // do not: the tracker gives us a new ID and tells our neighbours the old one left.
+    this.swarmManager = new SwarmManager(this.downloadLimiter, { store: options.store });
+    this.cache = options.store ? new CacheManager(options.store, options.cacheBudget) : null;
+    // Signal through a shared neighbour when possible; the tracker is the fallback
+    this.peerTransport = options.createPeerTransport(new FallbackSignaling([
+      new PeerRelaySignaling(targetId => this.findRelay(targetId), (relayId, payload) => this.sendToPeer(relayId, payload)),
+      new TrackerSignaling(this.tracker),
+    ]), () => this.clientId);
+    this.setupPeerTransportCallbacks();
+    this.restored = this.restoreSwarms();
+    this.connectToTracker();
+    
+    this.requestScheduler = setInterval(() => {
+      const actions = this.swarmManager?.tick(this.getPeerBitfields());
+      if (actions && actions.length > 0) {
+        this.executeActions(actions);
+      }
+    }, P2P_CONFIG.REQUEST_CHECK_INTERVAL);
+    
+    this.rechokeScheduler = setInterval(() => {
+      this.getHandshakedPeers().forEach(peer => this.updateInterest(peer));
+      this.rechoke();
+    }, P2P_CONFIG.RECHOKE_INTERVAL);
+    
+    this.pexScheduler = setInterval(() => this.sendPex(), P2P_CONFIG.PEX_INTERVAL);
+    this.neighborScheduler = setInterval(() => this.rotateNeighbors(), P2P_CONFIG.NEIGHBOR_ROTATION_INTERVAL);
+    this.aoiScheduler = setInterval(() => this.processDownloadQueue(), P2P_CONFIG.AOI_UPDATE_INTERVAL);
+    
+    if (typeof window !== 'undefined') {
+      window.addEventListener('beforeunload', () => {
+        this.disconnect();
+      });
+    }
   }
 
-  private connectToTracker(url: string): void {
-    logger.info('Connecting to tracker...');
-    this.ws = new WebSocket(url);
-
-    this.ws.onopen = () => {
-      logger.info('Connected to tracker');
-      this.webRTCHandler = new WebRTCHandler(this.ws!);
-      this.swarmManager = new SwarmManager();
-      this.setupWebRTCHandlerCallbacks();
+  private connectToTracker(): void {
+    this.tracker.onOpen = () => {
+      // The tracker forgets us whenever the connection drops
+      this.restored.then(() => this.announceSwarms());
       
-      setTimeout(() => {
-        if (this.ws && this.ws.readyState === WebSocket.OPEN) {
-          this.ws.send(JSON.stringify({ type: 'request-connection' }));
-          logger.p2p('Requesting connections to existing peers');
-        }
-      }, P2P_CONFIG.CONNECTION_REQUEST_DELAY);
+      setTimeout(() => this.requestNeighbors(P2P_CONFIG.TARGET_NEIGHBORS), P2P_CONFIG.CONNECTION_REQUEST_DELAY);
     };
 
-    this.ws.onmessage = (event) => {
-      try {
-        const message = JSON.parse(event.data) as TrackerMessage;
-        this.handleTrackerMessage(message);
-      } catch (error) {
-        logger.error('Failed to parse tracker message:', error);
-      }
+    this.tracker.onMessage = (message) => {
+      this.handleTrackerMessage(message).catch(error => logger.error('Failed to handle tracker message:', error));
     };
 
-    this.ws.onerror = (error) => logger.error('Tracker error:', error);
-    this.ws.onclose = () => {
-      logger.warn('Disconnected from tracker, reconnecting...');
-      setTimeout(() => this.connectToTracker(url), P2P_CONFIG.RECONNECT_DELAY);
-    };
+    this.tracker.connect();
+  }
+
+  /**
+   * Brings back every stored model. Complete ones go into the scene and are
+   * seeded again without being re-fetched; unfinished ones are queued and
+   * resume from their stored chunks when their download starts.
+   */
+  private async restoreSwarms(): Promise<void> {
+    try {
+      this.cache?.setOwnAuthorId((await this.identity).id);
+      await this.cache?.load();
+      const { swarms, partial } = await this.swarmManager!.restore();
+      swarms.forEach(swarm => swarm.placements.forEach(placement => {
+        this.cache?.track(placement);
+        this.placeModelFromSwarm(placement);
+      }));
+      partial.forEach(placement => {
+        if (this.downloadQueue.add(placement)) {
+          this.showPlaceholder(placement);
+        }
+      });
+      if (swarms.length > 0 || partial.length > 0) {
+        logger.info(`Restored ${swarms.length} model(s) and ${partial.length} unfinished placement(s) from storage`);
+      }
+      this.processDownloadQueue();
+      await this.evictFromCache();
+    } catch (error) {
+      logger.error('Failed to restore models from storage:', error);
+    }
+  }
+
+  /**
+   * Announces every swarm with its current completion state
+   */
+  private announceSwarms(): void {
+    this.swarmManager?.getSwarms().forEach((_, modelId) => {
+      this.announceToTracker(modelId, this.swarmManager!.isComplete(modelId));
+    });
   }
 
   private async handleTrackerMessage(message: TrackerMessage): Promise<void> {
@@ -87,50 +178,175 @@ export class P2PClient {
         await this.handleSwarmPeers(message.modelId, message.peers);
         break;
       case 'peer-left-swarm':
+        this.candidatePeers.delete(message.peerId);
         logger.p2p(`Peer ${message.peerId} left swarm ${message.modelId}, disconnecting.`);
-        this.webRTCHandler?.handlePeerDisconnect(message.peerId);
+        this.peerTransport?.handlePeerDisconnect(message.peerId);
         break;
       case 'offer':
-        await this.webRTCHandler?.handleOffer(message.from, message.offer);
-        break;
       case 'answer':
-        await this.webRTCHandler?.handleAnswer(message.from, message.answer);
-        break;
       case 'ice-candidate':
-        await this.webRTCHandler?.handleIceCandidate(message.from, message.candidate);
+        await this.peerTransport?.handleSignal(message.from, message);
         break;
       case 'request-connection':
         logger.p2p(`Connection request from ${message.from}`);
-        await this.webRTCHandler?.createPeerConnection(message.from, true);
+        await this.peerTransport?.connect(message.from);
         break;
     }
   }
 
-  private setupWebRTCHandlerCallbacks(): void {
-    if (!this.webRTCHandler) return;
+  private setupPeerTransportCallbacks(): void {
+    if (!this.peerTransport) return;
 
-    this.webRTCHandler.onPeerConnected = (peerId) => {
+    this.peerTransport.onPeerConnected = (peerId) => {
       logger.p2p(`Peer connection established with ${peerId}`);
       this.onPeerConnected?.(peerId);
     };
     
-    this.webRTCHandler.onPeerDisconnected = (peerId) => {
+    this.peerTransport.onPeerDisconnected = (peerId) => {
       logger.p2p(`Peer disconnected: ${peerId}`);
       this.metadataSentTo.forEach(peerSet => peerSet.delete(peerId));
+      this.relayRoutes.delete(peerId);
+      this.relayRoutes.forEach(relays => relays.delete(peerId));
+      this.clearHandshakeTimeout(peerId);
+      this.sendQueues.get(peerId)?.clear();
+      this.sendQueues.delete(peerId);
+      this.swarmManager?.removePeer(peerId);
+      this.choker.removePeer(peerId);
+      this.rechoke();
       this.onPeerDisconnected?.(peerId);
     };
     
-    this.webRTCHandler.onDataChannelMessage = (peerId, data) => this.handlePeerMessage(peerId, data);
+    this.peerTransport.onDataChannelMessage = (peerId, data) => this.handlePeerMessage(peerId, data);
     
-    this.webRTCHandler.onDataChannelOpen = (peerId) => {
-      logger.p2p(`Data channel OPEN with ${peerId} - sending metadata`);
-      this.sendAllMetadata(peerId);
+    this.peerTransport.isPeerAllowed = (peerId) => !this.reputation.isBanned(peerId);
+    
+    this.peerTransport.onDataChannelOpen = (peerId) => {
+      logger.p2p(`Data channel OPEN with ${peerId} - sending handshake`);
+      this.sendHandshake(peerId);
+    };
+  }
+
+  /**
+   * Queues a message for a peer. Control messages jump ahead of piece data.
+   * Returns false if the peer has no open data channel.
+   */
+  private sendToPeer(peerId: string, payload: string | ArrayBuffer, priority: SendPriority = 'control', tag?: string): boolean {
+    const channel = this.peerTransport?.getPeer(peerId)?.dataChannel;
+    if (!channel || channel.readyState !== 'open') return false;
+
+    let queue = this.sendQueues.get(peerId);
+    if (!queue || queue.channel !== channel) {
+      queue?.clear();
+      queue = new PeerSendQueue(peerId, channel, this.uploadLimiter);
+      this.sendQueues.set(peerId, queue);
+    }
+
+    queue.enqueue(payload, priority, tag);
+    return true;
+  }
+
+  private static pieceTag(modelId: string, chunkIndex: number): string {
+    return `piece:${modelId}:${chunkIndex}`;
+  }
+
+  private sendHandshake(peerId: string): void {
+    if (!this.sendToPeer(peerId, JSON.stringify(createHandshake(this.clientId ?? '')))) return;
+
+    this.clearHandshakeTimeout(peerId);
+    this.handshakeTimeouts.set(peerId, setTimeout(() => {
+      this.handshakeTimeouts.delete(peerId);
+      if (!this.peerTransport?.getPeer(peerId)?.handshake) {
+        logger.warn(`No handshake from ${peerId} within ${P2P_CONFIG.HANDSHAKE_TIMEOUT}ms, disconnecting`);
+        this.peerTransport?.handlePeerDisconnect(peerId);
+      }
+    }, P2P_CONFIG.HANDSHAKE_TIMEOUT));
+  }
+
+  private clearHandshakeTimeout(peerId: string): void {
+    const timeout = this.handshakeTimeouts.get(peerId);
+    if (timeout) {
+      clearTimeout(timeout);
+      this.handshakeTimeouts.delete(peerId);
+    }
+  }
+
+  private handleHandshake(peerId: string, message: HandshakeMessage): void {
+    const peer = this.peerTransport?.getPeer(peerId);
+    if (!peer) return;
+
+    if (!isCompatible(message)) {
+      logger.warn(`Peer ${peerId} speaks incompatible protocol v${message.protocolVersion} (min v${message.minProtocolVersion}), disconnecting`);
+      this.peerTransport?.handlePeerDisconnect(peerId);
+      return;
+    }
+
+    if (message.clientId !== peerId) {
+      logger.warn(`Peer ${peerId} identified itself as ${message.clientId}, disconnecting`);
+      this.peerTransport?.handlePeerDisconnect(peerId);
+      return;
+    }
+
+    const firstHandshake = !peer.handshake;
+    peer.handshake = {
+      protocolVersion: Math.min(message.protocolVersion, PROTOCOL_VERSION),
+      clientId: message.clientId,
+      capabilities: negotiateCapabilities(message),
     };
+    this.clearHandshakeTimeout(peerId);
+    logger.p2p(`Handshake with ${peerId} complete (v${peer.handshake.protocolVersion}, capabilities: ${Array.from(peer.handshake.capabilities).join(', ') || 'none'})`);
+
+    if (firstHandshake) {
+      if (!peer.handshake.capabilities.has(CAPABILITIES.CHOKE)) {
+        // Peers without choking serve everyone, and we serve them the same way
+        peer.peerChoking = false;
+        peer.peerInterested = true;
+        peer.amChoking = false;
+      }
+      this.sendAllMetadata(peerId);
+    }
+  }
+
+  private peerSupports(peerId: string, capability: string): boolean {
+    return !!this.peerTransport?.getPeer(peerId)?.handshake?.capabilities.has(capability);
   }
 
-  private handlePeerMessage(peerId: string, data: string): void {
+  private async handlePeerMessage(peerId: string, data: string | ArrayBuffer): Promise<void> {
     try {
-      const message = JSON.parse(data) as P2PMessage;
+      const handshakeDone = !!this.peerTransport?.getPeer(peerId)?.handshake;
+
+      if (typeof data !== 'string') {
+        if (!handshakeDone) {
+          logger.debug(`Dropping binary frame from ${peerId} received before handshake`);
+          return;
+        }
+        const piece = decodeFrame(data);
+        if (!piece) {
+          logger.warn(`Dropping malformed binary frame from ${peerId}`);
+          this.penalizePeer(peerId, 'malformed_message');
+          return;
+        }
+        await this.handlePiece(peerId, piece);
+        return;
+      }
+
+      let message: P2PMessage;
+      try {
+        message = JSON.parse(data) as P2PMessage;
+      } catch {
+        logger.warn(`Dropping unparseable message from ${peerId}`);
+        this.penalizePeer(peerId, 'malformed_message');
+        return;
+      }
+
+      if (message.type === 'handshake') {
+        this.handleHandshake(peerId, message);
+        return;
+      }
+      if (!handshakeDone) {
+        logger.debug(`Dropping ${message.type} from ${peerId} received before handshake`);
+        return;
+      }
+
       switch (message.type) {
         case 'bitfield':
           this.handleBitfield(peerId, message);
@@ -139,142 +355,386 @@ export class P2PClient {
           this.handleHave(peerId, message);
           break;
         case 'request':
+          if (this.peerTransport?.getPeer(peerId)?.amChoking || this.isSeedingPaused()) {
+            logger.debug(`Ignoring request from ${peerId} (choked or seeding paused)`);
+            break;
+          }
           const requestAction = this.swarmManager?.handleRequest(peerId, message);
           if (requestAction) {
             this.executeActions([requestAction]);
           }
           break;
+        case 'choke':
+        case 'unchoke':
+          this.handleChokeState(peerId, message.type === 'choke');
+          break;
+        case 'interested':
+        case 'not-interested':
+          this.handleInterestState(peerId, message.type === 'interested');
+          break;
+        case 'cancel':
+          this.handleCancel(peerId, message);
+          break;
+        case 'pex':
+          await this.handlePex(peerId, message);
+          break;
+        case 'relay':
+          await this.handleRelay(peerId, message);
+          break;
         case 'piece':
-          const pieceActions = this.swarmManager?.handlePiece(peerId, message, this.getPeerBitfields());
-          if (pieceActions) {
-            this.executeActions(pieceActions);
-          }
+          await this.handlePiece(peerId, { ...message, data: Utils.base64ToArrayBuffer(message.data) });
           break;
         case 'metadata':
-          this.handleMetadata(peerId, message);
+          await this.handleMetadata(peerId, message);
           break;
+        default:
+          logger.warn(`Unknown message type from ${peerId}: ${(message as { type?: unknown }).type}`);
+          this.penalizePeer(peerId, 'malformed_message');
       }
     } catch (error) {
       logger.error(`Failed to handle peer message from ${peerId}:`, error);
     }
   }
   
+  /**
+   * Records an offense against a peer. Snubbed peers lose their outstanding
+   * requests; banned peers are disconnected and refused for the rest of the session.
+   */
+  private penalizePeer(peerId: string, offense: PeerOffense): void {
+    const standing = this.reputation.record(peerId, offense);
+    if (standing === 'banned') {
+      logger.warn(`Banning peer ${peerId} after ${offense}`);
+      this.peerTransport?.handlePeerDisconnect(peerId);
+    } else if (standing === 'snubbed') {
+      logger.warn(`Snubbing peer ${peerId} for ${P2P_CONFIG.REPUTATION_SNUB_DURATION}ms after ${offense}`);
+      this.swarmManager?.releasePeerRequests(peerId);
+    }
+  }
+
+  private handleCancel(peerId: string, message: CancelMessage): void {
+    const dropped = this.sendQueues.get(peerId)?.dropTagged(P2PClient.pieceTag(message.modelId, message.chunkIndex)) ?? 0;
+    logger.debug(`Peer ${peerId} cancelled chunk ${message.chunkIndex} of ${message.modelId} (${dropped} queued send(s) dropped)`);
+  }
+
+  private async handlePiece(peerId: string, piece: PieceMessage): Promise<void> {
+    this.choker.recordDownload(peerId, piece.data.byteLength);
+    const actions = await this.swarmManager?.handlePiece(peerId, piece, this.getPeerBitfields());
+    if (actions) {
+      this.executeActions(actions);
+    }
+  }
+  
   private announceToTracker(modelId: string, complete: boolean): void {
-    if (!this.ws || this.ws.readyState !== WebSocket.OPEN) {
+    if (!this.tracker.send({ type: 'announce', modelId, complete })) {
       logger.warn('Cannot announce to tracker - not connected');
       return;
     }
+    logger.p2p(`Announced ${modelId} to tracker (complete: ${complete})`);
+  }
 
-    try {
-      this.ws.send(JSON.stringify({
-        type: 'announce',
-        modelId,
-        complete
-      }));
+  /**
+   * Tells each PEX-capable peer which of our other peers share a swarm with it.
+   * Both ends of every pair hear about each other from us.
+   */
+  private sendPex(): void {
+    const peers = this.getHandshakedPeers();
+    this.swarmManager?.getSwarms().forEach((_, modelId) => {
+      const members = peers.filter(peer => peer.bitfield.has(modelId));
+      if (members.length < 2) return;
 
-      logger.p2p(`Announced ${modelId} to tracker (complete: ${complete})`);
-    } catch (error) {
-      logger.error('Failed to announce to tracker:', error);
+      members.forEach(recipient => {
+        if (!recipient.handshake!.capabilities.has(CAPABILITIES.PEX)) return;
+
+        const others = members
+          .filter(peer => peer.id !== recipient.id)
+          .slice(0, P2P_CONFIG.PEX_MAX_PEERS)
+          .map(peer => peer.id);
+        this.sendToPeer(recipient.id, JSON.stringify({ type: 'pex', modelId, peers: others }));
+      });
+    });
+  }
+
+  private async handlePex(peerId: string, message: PexMessage): Promise<void> {
+    if (!Array.isArray(message.peers) || message.peers.some(id => typeof id !== 'string')) {
+      this.penalizePeer(peerId, 'malformed_message');
+      return;
+    }
+    message.peers.forEach(id => this.addRelayRoute(id, peerId));
+    if (!this.swarmManager?.getSwarms().has(message.modelId)) return;
+
+    // Both sides of a pair learn of each other, so only the lower ID dials
+    // to avoid two connections racing each other
+    const candidates = message.peers
+      .slice(0, P2P_CONFIG.PEX_MAX_PEERS)
+      .filter(id => this.clientId !== null && this.clientId < id)
+      .map(id => ({ id }));
+
+    logger.debug(`PEX from ${peerId}: ${message.peers.length} peer(s) for ${message.modelId}`);
+    await this.handleSwarmPeers(message.modelId, candidates);
+  }
+
+  private addRelayRoute(targetId: string, relayId: string): void {
+    if (targetId === this.clientId) return;
+
+    let relays = this.relayRoutes.get(targetId);
+    if (!relays) {
+      relays = new Set();
+      this.relayRoutes.set(targetId, relays);
+    }
+    relays.add(relayId);
+  }
+
+  private findRelay(targetId: string): string | null {
+    for (const relayId of this.relayRoutes.get(targetId) ?? []) {
+      if (this.peerSupports(relayId, CAPABILITIES.SIGNAL_RELAY) &&
+          this.peerTransport?.getPeer(relayId)?.dataChannel?.readyState === 'open') {
+        return relayId;
+      }
     }
+    return null;
   }
 
+  /**
+   * Delivers a relayed signal addressed to us, or forwards it one hop to a
+   * peer we are connected to. Signals are never forwarded further.
+   */
+  private async handleRelay(peerId: string, message: RelayMessage): Promise<void> {
+    const signal = message.signal;
+    if (typeof message.to !== 'string' || !signal || signal.to !== message.to ||
+        !['offer', 'answer', 'ice-candidate'].includes(signal.type)) {
+      this.penalizePeer(peerId, 'malformed_message');
+      return;
+    }
+
+    if (message.to === this.clientId) {
+      if (typeof message.from !== 'string' || message.from === this.clientId) {
+        this.penalizePeer(peerId, 'malformed_message');
+        return;
+      }
+      // The relay can reach the sender, so our reply can go back the same way
+      this.addRelayRoute(message.from, peerId);
+      logger.debug(`Relayed ${signal.type} from ${message.from} via ${peerId}`);
+      await this.peerTransport?.handleSignal(message.from, signal);
+      return;
+    }
+
+    if (!this.peerSupports(message.to, CAPABILITIES.SIGNAL_RELAY)) {
+      logger.debug(`Cannot relay ${signal.type} from ${peerId} to ${message.to}: not connected`);
+      return;
+    }
+    this.sendToPeer(message.to, JSON.stringify({ type: 'relay', to: message.to, from: peerId, signal }));
+  }
+
+  /**
+   * Remembers newly heard-of peers as candidates and connects to some of them
+   * if we are below TARGET_NEIGHBORS
+   */
   private async handleSwarmPeers(modelId: string, peers: any[]): Promise<void> {
     if (!peers || peers.length === 0) return;
     
     logger.p2p(`Swarm update for ${modelId}: ${peers.length} peers available`);
     
-    const currentPeerCount = this.webRTCHandler?.getAllPeers().size || 0;
-    const peersToConnect = peers
-      .filter(p => p.id !== this.clientId && !this.webRTCHandler?.getPeer(p.id))
-      .slice(0, P2P_CONFIG.MAX_PEERS - currentPeerCount);
+    peers.forEach(p => {
+      if (p.id !== this.clientId && !this.reputation.isBanned(p.id)) {
+        this.candidatePeers.add(p.id);
+      }
+    });
+    await this.fillNeighbors();
+  }
+
+  /**
+   * Opens connections to random candidates until we have TARGET_NEIGHBORS peers
+   */
+  private async fillNeighbors(): Promise<number> {
+    const currentPeerCount = this.peerTransport?.getAllPeers().size || 0;
+    const wanted = Math.min(P2P_CONFIG.TARGET_NEIGHBORS, P2P_CONFIG.MAX_PEERS) - currentPeerCount;
+    if (wanted <= 0) return 0;
+
+    const peersToConnect = Utils.shuffle(Array.from(this.candidatePeers)
+      .filter(id => !this.peerTransport?.getPeer(id) && !this.reputation.isBanned(id)))
+      .slice(0, wanted);
 
     if (peersToConnect.length > 0) {
       logger.p2p(`Initiating connections to ${peersToConnect.length} new peers`);
-      for (const peer of peersToConnect) {
+      for (const peerId of peersToConnect) {
         try {
-          await this.webRTCHandler?.createPeerConnection(peer.id, true);
+          await this.peerTransport?.connect(peerId);
         } catch (error) {
-          logger.error(`Failed to connect to peer ${peer.id}:`, error);
+          logger.error(`Failed to connect to peer ${peerId}:`, error);
         }
       }
     }
+    return wanted - peersToConnect.length;
   }
 
-  private handleMetadata(peerId: string, message: any): void {
+  /**
+   * Asks the tracker to have a random sample of peers connect to us
+   */
+  private requestNeighbors(count: number): void {
+    const sent = this.tracker.send({
+      type: 'request-connection',
+      count,
+      exclude: Array.from(this.peerTransport?.getAllPeers().keys() || []),
+    });
+    if (!sent) return;
+    logger.p2p(`Requesting ${count} connection(s) from the tracker`);
+  }
+
+  /**
+   * Periodically swaps one idle neighbour for a random new one so the overlay
+   * keeps mixing, then tops the neighbour set back up
+   */
+  private async rotateNeighbors(): Promise<void> {
+    const peers = Array.from(this.peerTransport?.getAllPeers().values() || []);
+    if (peers.length >= P2P_CONFIG.TARGET_NEIGHBORS) {
+      // Idle both ways: we are not downloading from it and not seeding to it
+      const idle = peers.filter(peer =>
+        !this.swarmManager?.hasOutstandingRequests(peer.id) && !this.isUploadingTo(peer));
+      const hasReplacement = Array.from(this.candidatePeers).some(id => !this.peerTransport?.getPeer(id));
+      if (idle.length > 0 && hasReplacement) {
+        const dropped = idle[Math.floor(Math.random() * idle.length)];
+        logger.p2p(`Rotating out neighbour ${dropped.id}`);
+        this.candidatePeers.delete(dropped.id);
+        this.peerTransport?.handlePeerDisconnect(dropped.id);
+      }
+    }
+
+    const missing = await this.fillNeighbors();
+    if (missing > 0) {
+      this.requestNeighbors(missing);
+    }
+  }
+
+  /**
+   * Whether we are seeding to this peer now or have been within the choker's window
+   */
+  private isUploadingTo(peer: Peer): boolean {
+    return (!peer.amChoking && peer.peerInterested) || this.choker.getRecentUpload(peer.id) > 0;
+  }
+
+  private async handleMetadata(peerId: string, message: any): Promise<void> {
     const modelPackage: ModelPackage = message.package;
-    logger.p2p(`Metadata received from ${peerId}: ${modelPackage.id}`);
+    logger.p2p(`Metadata received from ${peerId}: ${modelPackage.id} (placement ${modelPackage.placementId})`);
+    
+    if (!(await ModelSerializer.verifyPieceHashes(modelPackage))) {
+      logger.warn(`Rejecting metadata for ${modelPackage.id} from ${peerId}: piece hashes do not match root hash`);
+      return;
+    }
     
+    if (!(await ModelSerializer.verifySignature(modelPackage))) {
+      logger.warn(`Rejecting metadata for ${modelPackage.id} from ${peerId}: invalid author signature`);
+      return;
+    }
+    
+    this.acceptPlacement(modelPackage);
+  }
+  
+  /**
+   * Takes in a verified placement: shown at once if we have the model,
+   * otherwise queued for download behind a placeholder
+   */
+  private acceptPlacement(modelPackage: ModelPackage): void {
     if (!this.swarmManager?.getSwarms().has(modelPackage.id)) {
-      logger.info(`New model discovered: ${modelPackage.id}, starting download`);
-      this.downloadModel(modelPackage.id, modelPackage);
+      if (this.downloadQueue.add(modelPackage)) {
+        this.showPlaceholder(modelPackage);
+        const distance = DownloadQueue.distance(modelPackage, this.getPlayerPosition());
+        logger.info(`New model discovered: ${modelPackage.id} (${Math.round(distance)} units away)`);
+        this.processDownloadQueue();
+      }
+    } else if (this.addPlacement(modelPackage)) {
+      logger.info(`New placement ${modelPackage.placementId} of known model ${modelPackage.id}`);
+      if (this.swarmManager.isComplete(modelPackage.id)) {
+        this.placeModelFromSwarm(modelPackage);
+        const swarm = this.swarmManager.getSwarms().get(modelPackage.id)!;
+        this.broadcastMetadata(modelPackage, Utils.createBitfield(swarm.ownChunks, swarm.totalChunks));
+      } else {
+        this.showPlaceholder(modelPackage);
+      }
     } else {
-      logger.debug(`Already downloading/have model: ${modelPackage.id}`);
+      logger.debug(`Already downloading/have placement: ${modelPackage.placementId}`);
     }
   }
   
   /**
    * Send metadata and bitfield to a specific peer
    */
-  private sendMetadataToPeer(peerId: string, modelId: string, metadata: ModelPackage, bitfield: Uint8Array): boolean {
-    const peer = this.webRTCHandler?.getPeer(peerId);
+  private sendMetadataToPeer(peerId: string, metadata: ModelPackage, bitfield: Uint8Array): boolean {
+    const peer = this.peerTransport?.getPeer(peerId);
     if (!peer?.dataChannel || peer.dataChannel.readyState !== 'open') {
       logger.debug(`Cannot send metadata to ${peerId} - channel not ready`);
       return false;
     }
     
-    let peerSet = this.metadataSentTo.get(modelId);
+    if (!peer.handshake) {
+      logger.debug(`Deferring metadata for ${peerId} until handshake completes`);
+      return false;
+    }
+    
+    const modelId = metadata.id;
+    let peerSet = this.metadataSentTo.get(metadata.placementId);
     if (!peerSet) {
       peerSet = new Set();
-      this.metadataSentTo.set(modelId, peerSet);
+      this.metadataSentTo.set(metadata.placementId, peerSet);
     }
     
     if (peerSet.has(peerId)) {
-      logger.debug(`Already sent metadata for ${modelId} to ${peerId}, skipping`);
+      logger.debug(`Already sent metadata for ${metadata.placementId} to ${peerId}, skipping`);
       return false;
     }
     
-    try {
-      peer.dataChannel.send(JSON.stringify({
-        type: 'metadata',
-        package: metadata
-      }));
-      
-      peer.dataChannel.send(JSON.stringify({
-        type: 'bitfield',
-        modelId,
-        bitfield: Array.from(bitfield)
-      }));
-      
-      peerSet.add(peerId);
-      logger.debug(`Sent metadata for ${modelId} to ${peerId}`);
-      return true;
-    } catch (error) {
-      logger.error(`Failed to send metadata to ${peerId}:`, error);
-      return false;
-    }
+    this.sendToPeer(peerId, JSON.stringify({
+      type: 'metadata',
+      package: metadata
+    }));
+    
+    this.sendToPeer(peerId, JSON.stringify({
+      type: 'bitfield',
+      modelId,
+      bitfield: Array.from(bitfield)
+    }));
+    
+    peerSet.add(peerId);
+    logger.debug(`Sent metadata for ${modelId} to ${peerId}`);
+    return true;
+  }
+
+  /**
+   * Gossips a placement to every neighbour that has not seen it yet. With a
+   * bounded overlay this is how models reach peers we are not connected to.
+   */
+  private broadcastMetadata(metadata: ModelPackage, bitfield: Uint8Array): number {
+    let sentTo = 0;
+    this.getHandshakedPeers().forEach(peer => {
+      if (this.sendMetadataToPeer(peer.id, metadata, bitfield)) {
+        sentTo++;
+      }
+    });
+    return sentTo;
   }
 
   private sendAllMetadata(peerId: string): void {
     let sentCount = 0;
-    this.swarmManager?.getSwarms().forEach((swarm, modelId) => {
-      if (swarm.metadata && swarm.ownChunks.size === swarm.totalChunks) {
+    this.swarmManager?.getSwarms().forEach((swarm) => {
+      if (swarm.ownChunks.size === swarm.totalChunks) {
         const bitfield = Utils.createBitfield(swarm.ownChunks, swarm.totalChunks);
-        if (this.sendMetadataToPeer(peerId, modelId, swarm.metadata, bitfield)) {
-          sentCount++;
-        }
+        swarm.placements.forEach(placement => {
+          if (this.sendMetadataToPeer(peerId, placement, bitfield)) {
+            sentCount++;
+          }
+        });
       }
     });
 
     if (sentCount === 0) {
       logger.debug(`No new models to share with ${peerId}`);
     } else {
-      logger.p2p(`Sent ${sentCount} model(s) metadata to ${peerId}`);
+      logger.p2p(`Sent ${sentCount} placement(s) metadata to ${peerId}`);
     }
   }
 
   private handleBitfield(peerId: string, message: any): void {
     const { modelId, bitfield } = message;
-    const peer = this.webRTCHandler?.getPeer(peerId);
+    const peer = this.peerTransport?.getPeer(peerId);
     if (!peer) return;
     
     const bitfieldArray = new Uint8Array(bitfield);
@@ -284,6 +744,9 @@ export class P2PClient {
     logger.debug(`Received bitfield from ${peerId} for ${modelId} (has pieces: ${hasPieces})`);
     
     if (this.swarmManager?.getSwarms().has(modelId)) {
+      this.updateInterest(peer);
+      if (peer.peerChoking) return;
+      
       const actions = this.swarmManager?.requestChunksFromPeer(peerId, modelId, bitfieldArray);
       if (actions) {
         this.executeActions(actions);
@@ -293,7 +756,7 @@ export class P2PClient {
 
   private handleHave(peerId: string, message: any): void {
     const { modelId, chunkIndex } = message;
-    const peer = this.webRTCHandler?.getPeer(peerId);
+    const peer = this.peerTransport?.getPeer(peerId);
     if (!peer) return;
     
     let bitfield = peer.bitfield.get(modelId);
@@ -306,6 +769,140 @@ export class P2PClient {
     
     Utils.setBit(bitfield, chunkIndex);
     logger.debug(`Peer ${peerId} now has chunk ${chunkIndex} of ${modelId}`);
+    
+    if (!peer.amInterested) {
+      this.updateInterest(peer);
+    }
+  }
+
+  private getHandshakedPeers(): Peer[] {
+    return Array.from(this.peerTransport?.getAllPeers().values() || []).filter(peer => peer.handshake);
+  }
+
+  /**
+   * Re-evaluates whether a peer has anything we still need and tells it when that changes
+   */
+  private updateInterest(peer: Peer): void {
+    let interested = false;
+    this.swarmManager?.getSwarms().forEach((swarm, modelId) => {
+      if (interested || swarm.ownChunks.size === swarm.totalChunks) return;
+      const bitfield = peer.bitfield.get(modelId);
+      if (!bitfield) return;
+      for (let i = 0; i < swarm.totalChunks; i++) {
+        if (!swarm.ownChunks.has(i) && Utils.hasBit(bitfield, i)) {
+          interested = true;
+          return;
+        }
+      }
+    });
+
+    if (interested === peer.amInterested) return;
+    peer.amInterested = interested;
+    if (peer.handshake?.capabilities.has(CAPABILITIES.CHOKE)) {
+      this.sendToPeer(peer.id, JSON.stringify({ type: interested ? 'interested' : 'not-interested' }));
+    }
+    logger.debug(`${interested ? 'Interested' : 'Not interested'} in ${peer.id}`);
+  }
+
+  private handleChokeState(peerId: string, choked: boolean): void {
+    const peer = this.peerTransport?.getPeer(peerId);
+    if (!peer || peer.peerChoking === choked) return;
+
+    peer.peerChoking = choked;
+    logger.debug(`Peer ${peerId} ${choked ? 'choked' : 'unchoked'} us`);
+
+    if (choked) {
+      // A choking peer discards our pending requests; the scheduler re-requests them elsewhere
+      this.swarmManager?.releasePeerRequests(peerId);
+      return;
+    }
+
+    const bitfields = this.getPeerBitfields();
+    this.swarmManager?.getSwarms().forEach((_, modelId) => {
+      this.executeActions(this.swarmManager?.requestMoreChunks(modelId, bitfields) || []);
+    });
+  }
+
+  private handleInterestState(peerId: string, interested: boolean): void {
+    const peer = this.peerTransport?.getPeer(peerId);
+    if (!peer || peer.peerInterested === interested) return;
+
+    peer.peerInterested = interested;
+    logger.debug(`Peer ${peerId} is ${interested ? 'interested' : 'not interested'}`);
+
+    const unchokedCount = this.getHandshakedPeers().filter(p => !p.amChoking).length;
+    if ((interested && unchokedCount < this.choker.getUploadSlots()) || (!interested && !peer.amChoking)) {
+      this.rechoke();
+    }
+  }
+
+  /**
+   * Applies the choker's decision, sending choke/unchoke only on changes
+   */
+  private rechoke(): void {
+    const peers = this.getHandshakedPeers().filter(peer => peer.handshake!.capabilities.has(CAPABILITIES.CHOKE));
+    const unchoked = this.isSeedingPaused() ? new Set<string>() : this.choker.rechoke(peers);
+
+    peers.forEach(peer => {
+      const shouldChoke = !unchoked.has(peer.id);
+      if (shouldChoke === peer.amChoking) return;
+
+      peer.amChoking = shouldChoke;
+      if (shouldChoke) {
+        const dropped = this.sendQueues.get(peer.id)?.clearData() ?? 0;
+        logger.debug(`Choking ${peer.id} (${dropped} queued piece(s) dropped)`);
+      } else {
+        logger.debug(`Unchoking ${peer.id}${this.choker.isOptimistic(peer.id) ? ' (optimistic)' : ''}`);
+      }
+      this.sendToPeer(peer.id, JSON.stringify({ type: shouldChoke ? 'choke' : 'unchoke' }));
+    });
+  }
+
+  /**
+   * Sets how many peers we upload to at once
+   */
+  public setUploadSlots(slots: number): void {
+    this.choker.setUploadSlots(slots);
+    this.rechoke();
+  }
+
+  /**
+   * Caps total upload and download across all peers. Omitted fields keep
+   * their current value; null removes a limit.
+   */
+  public setBandwidthLimits(limits: Partial<BandwidthLimits>): void {
+    if (limits.uploadBytesPerSecond !== undefined) {
+      this.uploadLimiter.setRate(limits.uploadBytesPerSecond);
+    }
+    if (limits.downloadBytesPerSecond !== undefined) {
+      this.downloadLimiter.setRate(limits.downloadBytesPerSecond);
+    }
+    logger.info(`Bandwidth limits: up ${this.uploadLimiter.getRate() ?? 'unlimited'}, down ${this.downloadLimiter.getRate() ?? 'unlimited'} bytes/s`);
+  }
+
+  public getBandwidthLimits(): BandwidthLimits {
+    return {
+      uploadBytesPerSecond: this.uploadLimiter.getRate(),
+      downloadBytesPerSecond: this.downloadLimiter.getRate(),
+    };
+  }
+
+  /**
+   * When enabled, uploads stop while the user is idle and nothing is downloading
+   */
+  public setStopSeedingWhenIdle(enabled: boolean): void {
+    this.stopSeedingWhenIdle = enabled;
+    this.rechoke();
+  }
+
+  private isSeedingPaused(): boolean {
+    if (!this.stopSeedingWhenIdle || !this.idleMonitor.isIdle()) return false;
+
+    // Keep reciprocating while we still need pieces from the swarm
+    for (const modelId of this.swarmManager?.getSwarms().keys() ?? []) {
+      if (!this.swarmManager!.isComplete(modelId)) return false;
+    }
+    return true;
   }
 
   // Execute actions returned by SwarmManager
@@ -315,6 +912,9 @@ export class P2PClient {
         case 'request_chunk':
           this.requestChunk(action.peerId!, action.modelId, action.chunkIndex!);
           break;
+        case 'cancel_request':
+          this.cancelRequest(action.peerId!, action.modelId, action.chunkIndex!);
+          break;
         case 'send_piece':
           this.sendPiece(action.peerId!, action.modelId, action.chunk!);
           break;
@@ -325,66 +925,69 @@ export class P2PClient {
           this.handleDownloadComplete(action.modelId);
           break;
         case 'download_progress':
+          this.updatePlaceholders(action.modelId, action.progress!);
           this.onDownloadProgress?.(action.modelId, action.progress!);
           break;
+        case 'penalize_peer':
+          this.penalizePeer(action.peerId!, action.offense!);
+          break;
       }
     }
   }
 
   private requestChunk(peerId: string, modelId: string, chunkIndex: number): void {
-    const peer = this.webRTCHandler?.getPeer(peerId);
-    if (!peer?.dataChannel || peer.dataChannel.readyState !== 'open') {
+    const sent = this.sendToPeer(peerId, JSON.stringify({
+      type: 'request',
+      modelId,
+      chunkIndex
+    }));
+
+    if (sent) {
+      logger.debug(`Requesting chunk ${chunkIndex} from ${peerId}`);
+    } else {
       logger.debug(`Cannot request chunk from ${peerId} - channel not ready`);
-      return;
     }
+  }
 
-    try {
-      peer.dataChannel.send(JSON.stringify({
-        type: 'request',
-        modelId,
-        chunkIndex
-      }));
+  private cancelRequest(peerId: string, modelId: string, chunkIndex: number): void {
+    if (!this.peerSupports(peerId, CAPABILITIES.CANCEL)) return;
 
-      logger.debug(`Requesting chunk ${chunkIndex} from ${peerId}`);
-    } catch (error) {
-      logger.error(`Failed to request chunk from ${peerId}:`, error);
+    if (this.sendToPeer(peerId, JSON.stringify({ type: 'cancel', modelId, chunkIndex }))) {
+      logger.debug(`Cancelled request for chunk ${chunkIndex} from ${peerId}`);
     }
   }
 
   private sendPiece(peerId: string, modelId: string, chunk: ModelChunk): void {
-    const peer = this.webRTCHandler?.getPeer(peerId);
-    if (!peer?.dataChannel || peer.dataChannel.readyState !== 'open') return;
-    
-    try {
-      peer.dataChannel.send(JSON.stringify({
-        type: 'piece',
-        modelId,
-        chunkIndex: chunk.index,
-        data: Utils.arrayBufferToBase64(chunk.data),
-        checksum: chunk.checksum
-      }));
-      logger.debug(`Sent chunk ${chunk.index} to ${peerId}`);
-    } catch (error) {
-      logger.error(`Failed to send piece to ${peerId}:`, error);
+    const payload = this.peerSupports(peerId, CAPABILITIES.BINARY_PIECES)
+      ? encodePieceFrame(modelId, chunk.index, chunk.data)
+      : JSON.stringify({
+          type: 'piece',
+          modelId,
+          chunkIndex: chunk.index,
+          data: Utils.arrayBufferToBase64(chunk.data)
+        });
+
+    if (this.sendToPeer(peerId, payload, 'data', P2PClient.pieceTag(modelId, chunk.index))) {
+      this.choker.recordUpload(peerId, chunk.data.byteLength);
+      this.cache?.touch(modelId);
+      logger.debug(`Queued chunk ${chunk.index} for ${peerId}`);
     }
   }
 
   private broadcastHave(modelId: string, chunkIndex: number): void {
-    this.webRTCHandler?.getAllPeers().forEach((peer) => {
-      if (peer.dataChannel?.readyState === 'open') {
-        try {
-          peer.dataChannel.send(JSON.stringify({ type: 'have', modelId, chunkIndex }));
-        } catch (error) {
-          logger.error(`Failed to broadcast have to ${peer.id}:`, error);
-        }
+    const message = JSON.stringify({ type: 'have', modelId, chunkIndex });
+    this.peerTransport?.getAllPeers().forEach((peer) => {
+      if (peer.handshake) {
+        this.sendToPeer(peer.id, message);
       }
     });
   }
 
   private getPeerBitfields(): Map<string, Map<string, Uint8Array>> {
     const bitfields = new Map<string, Map<string, Uint8Array>>();
-    this.webRTCHandler?.getAllPeers().forEach((peer, peerId) => {
-      if (peer.dataChannel?.readyState === 'open') {
+    this.peerTransport?.getAllPeers().forEach((peer, peerId) => {
+      if (peer.dataChannel?.readyState === 'open' && peer.handshake && !peer.peerChoking &&
+          !this.reputation.isSnubbed(peerId)) {
         bitfields.set(peerId, peer.bitfield);
       }
     });
@@ -397,53 +1000,270 @@ export class P2PClient {
     
     logger.info(`Download complete for ${modelId}!`);
     
-    this.metadataSentTo.delete(modelId);
+    const modelData = ModelSerializer.reassembleChunks(Array.from(swarm.receivedChunks.values()));
+    const contentId = await ModelSerializer.computeModelId(modelData);
+    if (contentId !== modelId) {
+      logger.error(`Content hash mismatch for ${modelId} (got ${contentId}), discarding download`);
+      swarm.placements.forEach(placement => this.removePlaceholder(placement.placementId));
+      this.swarmManager?.removeSwarm(modelId);
+      this.cache?.forget(modelId);
+      return;
+    }
     
-    const sortedChunks = Array.from(swarm.receivedChunks.values()).sort((a, b) => a.index - b.index);
-    const blobUrl = ModelSerializer.createBlobFromChunks(sortedChunks);
+    const bitfield = Utils.createBitfield(swarm.ownChunks, swarm.totalChunks);
+    swarm.placements.forEach(placement => {
+      this.metadataSentTo.delete(placement.placementId);
+      this.placeModelFromSwarm(placement);
+      this.broadcastMetadata(placement, bitfield);
+    });
+    this.getHandshakedPeers().forEach(peer => this.updateInterest(peer));
     
+    this.announceToTracker(modelId, true);
+    this.processDownloadQueue();
+    await this.evictFromCache();
+  }
+
+  private showPlaceholder(modelPackage: ModelPackage): void {
+    const swarm = this.swarmManager?.getSwarms().get(modelPackage.id);
+    this.sink.showPlaceholder(modelPackage, swarm ? swarm.ownChunks.size / swarm.totalChunks * 100 : null);
+  }
+
+  private updatePlaceholders(modelId: string, progress: number): void {
+    this.swarmManager?.getSwarms().get(modelId)?.placements.forEach(placement => {
+      this.sink.updatePlaceholder(placement.placementId, progress);
+    });
+  }
+
+  private removePlaceholder(placementId: string): void {
+    this.sink.removePlaceholder(placementId);
+  }
+
+  private getPlayerPosition(): Vec3 {
+    return this.sink.getViewerPosition();
+  }
+
+  /**
+   * Starts queued downloads that are within the area of interest, plus the
+   * nearest remaining ones while background download slots are free
+   */
+  private processDownloadQueue(): void {
+    if (this.downloadQueue.size === 0 || !this.swarmManager) return;
+
+    let activeDownloads = this.startingDownloads.size;
+    this.swarmManager.getSwarms().forEach((_, modelId) => {
+      if (!this.swarmManager!.isComplete(modelId)) activeDownloads++;
+    });
+
+    const freeSlots = Math.max(0, P2P_CONFIG.BACKGROUND_DOWNLOADS - activeDownloads);
+    this.downloadQueue.takeReady(this.getPlayerPosition(), this.aoiRadius, freeSlots).forEach(entry => {
+      const [first, ...rest] = entry.placements;
+      logger.info(`Starting download for ${entry.modelId} (${Math.round(entry.distance)} units away)`);
+      this.downloadModel(entry.modelId, first).then(() => {
+        rest.forEach(placement => this.addPlacement(placement));
+        const swarm = this.swarmManager?.getSwarms().get(entry.modelId);
+        if (swarm) {
+          this.updatePlaceholders(entry.modelId, swarm.ownChunks.size / swarm.totalChunks * 100);
+        }
+      }).catch(error => {
+        logger.error(`Failed to start download for ${entry.modelId}, queueing it again:`, error);
+        entry.placements.forEach(placement => this.downloadQueue.add(placement));
+      });
+    });
+  }
+
+  public setAreaOfInterestRadius(radius: number): void {
+    this.aoiRadius = Math.max(0, radius);
+    this.processDownloadQueue();
+  }
+
+  public getQueuedDownloads(): Omit<QueuedDownload, 'placements'>[] {
+    return this.downloadQueue.getEntries(this.getPlayerPosition())
+      .map(({ modelId, distance }) => ({ modelId, distance }));
+  }
+
+  /**
+   * Records another placement of a model we have a swarm for.
+   * Returns false if the swarm is unknown or already has the placement.
+   */
+  private addPlacement(modelPackage: ModelPackage): boolean {
+    if (!this.swarmManager?.addPlacement(modelPackage)) return false;
+    this.cache?.addPlacement(modelPackage);
+    return true;
+  }
+
+  /**
+   * Evicts stored models while the cache is over budget, sparing downloads in progress.
+   * Evicted models stay in the scene and keep seeding until the page is reloaded.
+   */
+  private async evictFromCache(): Promise<void> {
+    if (!this.cache) return;
+
     try {
-      const result = await SceneLoader.ImportMeshAsync("", blobUrl, "", this.scene, undefined, ".glb");
-      if (result.meshes.length > 0) {
-        const rootMesh = result.meshes[0];
-        rootMesh.position = new Vector3(swarm.metadata.position.x, swarm.metadata.position.y, swarm.metadata.position.z);
-        rootMesh.rotation = new Vector3(swarm.metadata.rotation.x, swarm.metadata.rotation.y, swarm.metadata.rotation.z);
-        rootMesh.scaling = new Vector3(swarm.metadata.scale.x, swarm.metadata.scale.y, swarm.metadata.scale.z);
-        this.onModelReceived?.(swarm.metadata);
-        result.meshes.forEach(mesh => {
-          if (mesh.material instanceof PBRMaterial) {
-            mesh.material.unlit = true;
-          }
-          this.shadowGenerator.addShadowCaster(mesh);
-        });
-      }
-      URL.revokeObjectURL(blobUrl);
+      await this.cache.enforce(this.getPlayerPosition(), modelId =>
+        !this.startingDownloads.has(modelId) &&
+        (!this.swarmManager?.getSwarms().has(modelId) || this.swarmManager.isComplete(modelId)));
     } catch (error) {
-      logger.error('Failed to load model:', error);
+      logger.error('Failed to evict models from the cache:', error);
     }
-    
-    this.announceToTracker(modelId, true);
   }
 
-  async shareModel(modelUrl: string, position: Vector3, rotation: Vector3, scale: Vector3, prompt?: string): Promise<void> {
+  /**
+   * Stored models with their sizes, in the order they would be evicted
+   */
+  public getCachedModels(): CachedModel[] {
+    return this.cache?.list(this.getPlayerPosition()) ?? [];
+  }
+
+  public async getCacheUsage(): Promise<CacheUsage | null> {
+    return this.cache ? this.cache.getUsage() : null;
+  }
+
+  /**
+   * Sets the byte budget for stored models, evicting at once if it is now exceeded
+   */
+  public setCacheBudget(bytes: number): void {
+    this.cache?.setBudget(bytes);
+    this.evictFromCache();
+  }
+
+  /**
+   * Every placement in the world as we know it, including models still
+   * downloading or waiting in the queue
+   */
+  private getWorldPlacements(): ModelPackage[] {
+    const placements: ModelPackage[] = [];
+    this.swarmManager?.getSwarms().forEach(swarm => placements.push(...swarm.placements.values()));
+    this.downloadQueue.getEntries(this.getPlayerPosition()).forEach(entry => placements.push(...entry.placements));
+    return placements;
+  }
+
+  /**
+   * Snapshot of the world's layout, without model data
+   */
+  public exportWorld(): WorldManifest {
+    return createWorldManifest(this.getWorldPlacements());
+  }
+
+  /**
+   * Snapshot of the world's layout bundled with the bytes of every model we
+   * have in full, so it can be restored without peers
+   */
+  public exportWorldArchive(): ArrayBuffer {
+    const models = new Map<string, Uint8Array<ArrayBuffer>>();
+    this.swarmManager?.getSwarms().forEach((swarm, modelId) => {
+      if (this.swarmManager!.isComplete(modelId)) {
+        models.set(modelId, ModelSerializer.reassembleChunks(Array.from(swarm.receivedChunks.values())));
+      }
+    });
+    return encodeWorldArchive(this.getWorldPlacements(), models);
+  }
+
+  /**
+   * Recreates a world from exportWorld() or exportWorldArchive() output.
+   * Embedded models are placed, seeded and announced straight away; the rest
+   * are fetched from peers like any other discovered model. Placements that
+   * fail verification are skipped. Resolves to the number imported.
+   */
+  public async importWorld(data: string | ArrayBuffer): Promise<number> {
+    const { manifest, models } = readWorld(data);
+    await this.restored;
+
+    const placementsByModel = new Map<string, ModelPackage[]>();
+    for (const placement of manifest.placements) {
+      if (!(await this.verifyImportedPlacement(placement))) {
+        logger.warn(`Skipping imported placement ${placement?.placementId}: failed verification`);
+        continue;
+      }
+      const placements = placementsByModel.get(placement.id) ?? [];
+      placements.push(placement);
+      placementsByModel.set(placement.id, placements);
+    }
+
+    let imported = 0;
+    for (const [modelId, placements] of placementsByModel) {
+      const modelData = models.get(modelId);
+      if (modelData && !this.swarmManager?.isComplete(modelId) && !this.startingDownloads.has(modelId)) {
+        await this.seedImportedModel(modelId, placements[0], modelData);
+      }
+      placements.forEach(placement => this.acceptPlacement(placement));
+      imported += placements.length;
+    }
+
+    logger.info(`Imported ${imported} placement(s) of ${placementsByModel.size} model(s), ${models.size} embedded, from a v${manifest.version} world manifest`);
+    await this.evictFromCache();
+    return imported;
+  }
+
+  private async verifyImportedPlacement(placement: ModelPackage): Promise<boolean> {
     try {
-      const { package: modelPackage, chunks } = await ModelSerializer.prepareModel(modelUrl, position, rotation, scale, { prompt, authorId: this.clientId || 'unknown' });
+      return await ModelSerializer.verifyPieceHashes(placement) && await ModelSerializer.verifySignature(placement);
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Completes the model's swarm from embedded bytes, creating it for
+   * `placement` if needed and taking over placements waiting to download
+   */
+  private async seedImportedModel(modelId: string, placement: ModelPackage, data: Uint8Array<ArrayBuffer>): Promise<boolean> {
+    const chunks = ModelSerializer.chunkModel(modelId, data);
+    const verified = chunks.length === placement.metadata.totalChunks &&
+      (await Promise.all(chunks.map(chunk => ModelSerializer.verifyChunk(chunk, placement.metadata.pieceHashes[chunk.index])))).every(Boolean);
+    if (!verified || (await ModelSerializer.computeModelId(data)) !== modelId) {
+      logger.warn(`Embedded data for ${modelId} does not match its placement, downloading it instead`);
+      return false;
+    }
+
+    if (!this.swarmManager!.getSwarms().has(modelId)) {
+      this.swarmManager!.createSwarm(modelId, placement);
+      this.cache?.track(placement);
+    }
+    this.downloadQueue.remove(modelId).forEach(queued => this.addPlacement(queued));
+    this.executeActions(this.swarmManager!.addChunks(modelId, chunks));
+    logger.info(`Seeding imported model ${modelId} (${chunks.length} chunks)`);
+    // Placed, broadcast and announced exactly like a finished download
+    await this.handleDownloadComplete(modelId);
+    return true;
+  }
+
+  /**
+   * Hands a placement of a fully downloaded model to the sink
+   */
+  private async placeModelFromSwarm(modelPackage: ModelPackage): Promise<void> {
+    const swarm = this.swarmManager?.getSwarms().get(modelPackage.id);
+    if (!swarm) return;
+
+    if (await this.sink.placeModel(modelPackage, Array.from(swarm.receivedChunks.values()))) {
+      this.cache?.touch(modelPackage.id);
+      this.onModelReceived?.(modelPackage);
+    }
+  }
+
+  async shareModel(modelUrl: string, position: Vec3, rotation: Vec3, scale: Vec3, prompt?: string): Promise<void> {
+    try {
+      const identity = await this.identity;
+      const { package: modelPackage, chunks } = await ModelSerializer.prepareModel(modelUrl, position, rotation, scale, { prompt }, identity);
       const modelId = modelPackage.id;
       
-      const swarm = this.swarmManager?.createSwarm(modelId, modelPackage, chunks);
-      if (!swarm) return;
-      
-      logger.info(`Sharing ${modelId} (${chunks.length} chunks)`);
-      
-      this.announceToTracker(modelId, true);
+      // Identical content is seeded through one swarm regardless of how often it is placed
+      let swarm = this.swarmManager?.getSwarms().get(modelId);
+      if (swarm) {
+        this.addPlacement(modelPackage);
+        logger.info(`Sharing new placement of existing model ${modelId}`);
+      } else {
+        swarm = this.swarmManager?.createSwarm(modelId, modelPackage, chunks);
+        if (!swarm) return;
+        this.cache?.track(modelPackage);
+        
+        logger.info(`Sharing ${modelId} (${chunks.length} chunks)`);
+        
+        this.announceToTracker(modelId, true);
+        this.evictFromCache();
+      }
       
-      let sentTo = 0;
       const bitfield = Utils.createBitfield(swarm.ownChunks, swarm.totalChunks);
-      this.webRTCHandler?.getAllPeers().forEach((peer) => {
-        if (this.sendMetadataToPeer(peer.id, modelId, modelPackage, bitfield)) {
-          sentTo++;
-        }
-      });
+      const sentTo = this.broadcastMetadata(modelPackage, bitfield);
       
       logger.info(`Shared model with ${sentTo} peer(s)`);
     } catch (error) {
@@ -454,15 +1274,27 @@ export class P2PClient {
   
 
   async downloadModel(modelId: string, metadata: ModelPackage): Promise<void> {
-    if (this.swarmManager?.getSwarms().has(modelId)) {
+    if (!this.swarmManager || this.swarmManager.getSwarms().has(modelId) || this.startingDownloads.has(modelId)) {
       logger.debug(`Already downloading ${modelId}`);
       return;
     }
     
-    this.swarmManager?.createSwarm(modelId, metadata);
+    this.startingDownloads.add(modelId);
+    try {
+      await this.swarmManager.resumeSwarm(modelId, metadata);
+      this.cache?.track(metadata);
+    } finally {
+      this.startingDownloads.delete(modelId);
+    }
     logger.info(`Starting download for ${modelId} (${metadata.metadata.totalChunks} chunks)`);
     
+    if (this.swarmManager.isComplete(modelId)) {
+      await this.handleDownloadComplete(modelId);
+      return;
+    }
+    
     this.announceToTracker(modelId, false);
+    this.getHandshakedPeers().forEach(peer => this.updateInterest(peer));
     
     const actions = this.swarmManager?.requestMoreChunks(modelId, this.getPeerBitfields());
     if (actions && actions.length > 0) {
@@ -477,13 +1309,67 @@ export class P2PClient {
   public setOnPeerDisconnected = (cb: (peerId: string) => void) => this.onPeerDisconnected = cb;
   public setOnModelReceived = (cb: (modelPackage: ModelPackage) => void) => this.onModelReceived = cb;
   public setOnDownloadProgress = (cb: (modelId: string, progress: number) => void) => this.onDownloadProgress = cb;
-  public getConnectedPeers = (): string[] => Array.from(this.webRTCHandler?.getAllPeers().keys() || []);
+  public getConnectedPeers = (): string[] => Array.from(this.peerTransport?.getAllPeers().keys() || []);
+  public getAuthorId = async (): Promise<string> => (await this.identity).id;
+
+  /**
+   * Per-peer connection and send-queue state, for debugging and the HUD
+   */
+  public getDiagnostics(): PeerDiagnostics[] {
+    return Array.from(this.peerTransport?.getAllPeers().values() || []).map(peer => {
+      const connection = this.peerTransport?.getConnectionInfo(peer.id);
+      return {
+        peerId: peer.id,
+        connectionState: connection?.connectionState ?? 'unknown',
+        channelState: peer.dataChannel?.readyState ?? 'none',
+        handshakeComplete: !!peer.handshake,
+        capabilities: Array.from(peer.handshake?.capabilities ?? []),
+        candidateTypes: connection?.candidateTypes ?? [],
+        sendQueue: this.sendQueues.get(peer.id)?.getDepth() ?? null,
+        amChoking: peer.amChoking,
+        amInterested: peer.amInterested,
+        peerChoking: peer.peerChoking,
+        peerInterested: peer.peerInterested,
+        optimisticUnchoke: this.choker.isOptimistic(peer.id),
+        recentBytesDown: this.choker.getRecentDownload(peer.id),
+        recentBytesUp: this.choker.getRecentUpload(peer.id),
+        pipeline: this.getPipelineSnapshot(peer.id),
+        reputation: this.getReputationSnapshot(peer.id),
+      };
+    });
+  }
+
+  private getPipelineSnapshot(peerId: string): PeerPerformance | null {
+    const performance = this.swarmManager?.getPeerPerformance(peerId);
+    return performance ? { ...performance } : null;
+  }
+
+  private getReputationSnapshot(peerId: string): ReputationRecord | null {
+    const record = this.reputation.getRecord(peerId);
+    return record ? { ...record } : null;
+  }
+
+  public getBannedPeers = (): string[] => this.reputation.getBannedPeers();
 
   public disconnect(): void {
+    clearInterval(this.requestScheduler);
+    clearInterval(this.rechokeScheduler);
+    clearInterval(this.pexScheduler);
+    clearInterval(this.neighborScheduler);
+    clearInterval(this.aoiScheduler);
+    this.downloadQueue.clear();
+    this.sink.dispose();
+    this.candidatePeers.clear();
     this.metadataSentTo.clear();
+    this.relayRoutes.clear();
+    this.handshakeTimeouts.forEach(timeout => clearTimeout(timeout));
+    this.handshakeTimeouts.clear();
+    this.sendQueues.forEach(queue => queue.clear());
+    this.sendQueues.clear();
+    this.idleMonitor.dispose();
     
-    this.webRTCHandler?.disconnectAll();
-    this.ws?.close();
+    this.peerTransport?.disconnectAll();
+    this.tracker.close();
     logger.info('Disconnected from all peers and tracker');
   }
 
@@ -493,9 +1379,9 @@ export class P2PClient {
     const x = Math.random() * 20 - 10;
     const y = 1;
     const z = Math.random() * 20 - 10;
-    const position = new Vector3(x, y, z);
-    const rotation = new Vector3(0, 0, 0);
-    const scale = new Vector3(1, 1, 1);
+    const position = { x, y, z };
+    const rotation = { x: 0, y: 0, z: 0 };
+    const scale = { x: 1, y: 1, z: 1 };
     const modelUrl = "public/models/test_model_1.glb";
     try {
       await this.shareModel(modelUrl, position, rotation, scale, "Test mesh from puppeteer");
@@ -0,0 +1,97 @@
+/**
+ * Per-peer misbehaviour tracking. Offenses add weighted penalty points; past
+ * one threshold a peer is snubbed (we stop requesting from it for a while),
+ * past another it is banned for the rest of the session.
+ */
+
+import { P2P_CONFIG } from './constants';
+
+export type PeerOffense = 'failed_verification' | 'timeout' | 'unsolicited_piece' | 'malformed_message';
+
+export type PeerStanding = 'ok' | 'snubbed' | 'banned';
+
+export interface ReputationRecord {
+  failedVerifications: number;
+  timeouts: number;
+  unsolicitedPieces: number;
+  malformedMessages: number;
+  penalty: number; // weighted sum of all offenses
+  snubbedUntil: number;
+}
+
+const OFFENSE_WEIGHTS: Record<PeerOffense, number> = {
+  failed_verification: 10,
+  malformed_message: 5,
+  unsolicited_piece: 2,
+  timeout: 1,
+};
+
+export class PeerReputation {
+  private records = new Map<string, ReputationRecord>();
+  // Bans outlive records and reconnects: they last until the page is closed
+  private bannedPeers = new Set<string>();
+
+  public getRecord(peerId: string): ReputationRecord | undefined {
+    return this.records.get(peerId);
+  }
+
+  public isBanned(peerId: string): boolean {
+    return this.bannedPeers.has(peerId);
+  }
+
+  public isSnubbed(peerId: string, now: number = Date.now()): boolean {
+    const record = this.records.get(peerId);
+    return !!record && record.snubbedUntil > now;
+  }
+
+  public getBannedPeers(): string[] {
+    return Array.from(this.bannedPeers);
+  }
+
+  /**
+   * Records an offense and returns the peer's new standing. Timeouts can get a
+   * slow peer snubbed but never banned on their own.
+   */
+  public record(peerId: string, offense: PeerOffense, now: number = Date.now()): PeerStanding {
+    const record = this.getOrCreate(peerId);
+    switch (offense) {
+      case 'failed_verification': record.failedVerifications++; break;
+      case 'timeout': record.timeouts++; break;
+      case 'unsolicited_piece': record.unsolicitedPieces++; break;
+      case 'malformed_message': record.malformedMessages++; break;
+    }
+    record.penalty += OFFENSE_WEIGHTS[offense];
+
+    const banPenalty = record.penalty - record.timeouts * OFFENSE_WEIGHTS.timeout;
+    if (banPenalty >= P2P_CONFIG.REPUTATION_BAN_THRESHOLD) {
+      this.bannedPeers.add(peerId);
+      return 'banned';
+    }
+
+    if (record.penalty >= P2P_CONFIG.REPUTATION_SNUB_THRESHOLD && record.snubbedUntil <= now) {
+      record.snubbedUntil = now + P2P_CONFIG.REPUTATION_SNUB_DURATION;
+      // Start the next snub from a clean slate so one bad stretch is not punished twice
+      record.penalty = banPenalty;
+      record.timeouts = 0;
+      return 'snubbed';
+    }
+
+    return this.isSnubbed(peerId, now) ? 'snubbed' : 'ok';
+  }
+
+  private getOrCreate(peerId: string): ReputationRecord {
+    let record = this.records.get(peerId);
+    if (!record) {
+      record = {
+        failedVerifications: 0,
+        timeouts: 0,
+        unsolicitedPieces: 0,
+        malformedMessages: 0,
+        penalty: 0,
+        snubbedUntil: 0,
+      };
+      this.records.set(peerId, record);
+    }
+    return record;
+  }
+}
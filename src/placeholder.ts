@@ -0,0 +1,108 @@
+/**
+ * Stand-in shown where a model will appear while it is queued or downloading:
+ * a translucent box at the placement's position and in its proportions, with
+ * a floating label showing the prompt and download progress.
+ */
+
+import { Scene } from "@babylonjs/core/scene";
+import { Vector3, Color3 } from "@babylonjs/core/Maths/math";
+import { Mesh } from "@babylonjs/core/Meshes/mesh";
+import { MeshBuilder } from "@babylonjs/core/Meshes/meshBuilder";
+import { StandardMaterial } from "@babylonjs/core/Materials/standardMaterial";
+import { DynamicTexture } from "@babylonjs/core/Materials/Textures/dynamicTexture";
+import { SCENE_CONFIG } from './constants';
+import type { ModelPackage } from './model-serializer';
+
+const LABEL_TEXTURE_WIDTH = 512;
+const LABEL_TEXTURE_HEIGHT = 128;
+const MAX_LABEL_CHARS = 32;
+
+export class ModelPlaceholder {
+  private box: Mesh;
+  private label: Mesh;
+  private texture: DynamicTexture;
+  private materials: StandardMaterial[] = [];
+  private readonly title: string;
+
+  constructor(scene: Scene, modelPackage: ModelPackage) {
+    const { position, rotation, scale } = modelPackage;
+    const name = `placeholder_${modelPackage.placementId}`;
+
+    // The package has no bounds for the model, so the box is TARGET_MODEL_SIZE (what
+    // shared models are scaled to) along its largest axis, in the proportions of the
+    // placement's scale. It is centred on the placement's origin, which is the middle
+    // of a generated model once it is lifted onto the ground.
+    const largestScale = Math.max(Math.abs(scale.x), Math.abs(scale.y), Math.abs(scale.z)) || 1;
+    const width = SCENE_CONFIG.TARGET_MODEL_SIZE * Math.abs(scale.x) / largestScale;
+    const height = SCENE_CONFIG.TARGET_MODEL_SIZE * Math.abs(scale.y) / largestScale;
+    const depth = SCENE_CONFIG.TARGET_MODEL_SIZE * Math.abs(scale.z) / largestScale;
+    this.box = MeshBuilder.CreateBox(name, { width, height, depth }, scene);
+    this.box.position = new Vector3(position.x, position.y, position.z);
+    this.box.rotation = new Vector3(rotation.x, rotation.y, rotation.z);
+    this.box.isPickable = false;
+    this.box.checkCollisions = false;
+
+    const boxMaterial = new StandardMaterial(`${name}_mat`, scene);
+    boxMaterial.diffuseColor = new Color3(SCENE_CONFIG.PLACEHOLDER_COLOR.r, SCENE_CONFIG.PLACEHOLDER_COLOR.g, SCENE_CONFIG.PLACEHOLDER_COLOR.b);
+    boxMaterial.alpha = SCENE_CONFIG.PLACEHOLDER_ALPHA;
+    this.box.material = boxMaterial;
+    this.materials.push(boxMaterial);
+
+    this.label = MeshBuilder.CreatePlane(`${name}_label`, {
+      width: SCENE_CONFIG.PLACEHOLDER_LABEL_WIDTH,
+      height: SCENE_CONFIG.PLACEHOLDER_LABEL_HEIGHT,
+    }, scene);
+    this.label.position = new Vector3(position.x, position.y + height / 2 + SCENE_CONFIG.PLACEHOLDER_LABEL_HEIGHT, position.z);
+    this.label.billboardMode = Mesh.BILLBOARDMODE_ALL;
+    this.label.isPickable = false;
+
+    this.texture = new DynamicTexture(`${name}_tex`, { width: LABEL_TEXTURE_WIDTH, height: LABEL_TEXTURE_HEIGHT }, scene, false);
+    this.texture.hasAlpha = true;
+    const labelMaterial = new StandardMaterial(`${name}_labelMat`, scene);
+    labelMaterial.diffuseTexture = this.texture;
+    labelMaterial.emissiveColor = Color3.White();
+    labelMaterial.disableLighting = true;
+    labelMaterial.backFaceCulling = false;
+    this.label.material = labelMaterial;
+    this.materials.push(labelMaterial);
+
+    const prompt = modelPackage.metadata.prompt?.trim() || 'Shared model';
+    this.title = prompt.length > MAX_LABEL_CHARS ? `${prompt.slice(0, MAX_LABEL_CHARS - 1)}…` : prompt;
+    this.setProgress(null);
+  }
+
+  /**
+   * Redraws the label; null means the download has not started yet
+   */
+  public setProgress(progress: number | null): void {
+    const ctx = this.texture.getContext();
+    ctx.clearRect(0, 0, LABEL_TEXTURE_WIDTH, LABEL_TEXTURE_HEIGHT);
+
+    ctx.fillStyle = 'rgba(0, 0, 0, 0.6)';
+    ctx.fillRect(0, 0, LABEL_TEXTURE_WIDTH, LABEL_TEXTURE_HEIGHT);
+
+    ctx.fillStyle = 'white';
+    ctx.font = 'bold 36px sans-serif';
+    ctx.fillText(this.title, 16, 48);
+
+    const status = progress === null ? 'Queued' : `${Math.floor(progress)}%`;
+    ctx.font = '28px sans-serif';
+    ctx.fillText(status, 16, 104);
+
+    // Progress bar to the right of the status text
+    const barX = 140, barY = 80, barWidth = LABEL_TEXTURE_WIDTH - barX - 16, barHeight = 28;
+    ctx.fillStyle = 'rgba(255, 255, 255, 0.25)';
+    ctx.fillRect(barX, barY, barWidth, barHeight);
+    ctx.fillStyle = 'rgb(120, 200, 120)';
+    ctx.fillRect(barX, barY, barWidth * Math.min(Math.max(progress ?? 0, 0), 100) / 100, barHeight);
+
+    this.texture.update();
+  }
+
+  public dispose(): void {
+    this.box.dispose();
+    this.label.dispose();
+    this.texture.dispose();
+    this.materials.forEach(material => material.dispose());
+  }
+}
@@ -0,0 +1,66 @@
+/**
+ * Peer wire protocol versioning and capability negotiation
+ */
+
+import type { HandshakeMessage } from './message-types';
+
+// Bump PROTOCOL_VERSION for any change to the peer messages; raise
+// MIN_PROTOCOL_VERSION only when older peers can no longer be served.
+export const PROTOCOL_VERSION = 1;
+export const MIN_PROTOCOL_VERSION = 1;
+
+/**
+ * Optional features a peer may advertise in its handshake
+ */
+export const CAPABILITIES = {
+  BINARY_PIECES: 'binary-pieces',
+  CANCEL: 'cancel',
+  CHOKE: 'choke',
+  PEX: 'pex',
+  SIGNAL_RELAY: 'signal-relay',
+} as const;
+
+export type Capability = typeof CAPABILITIES[keyof typeof CAPABILITIES];
+
+export const LOCAL_CAPABILITIES: Capability[] = [
+  CAPABILITIES.BINARY_PIECES,
+  CAPABILITIES.CANCEL,
+  CAPABILITIES.CHOKE,
+  CAPABILITIES.PEX,
+  CAPABILITIES.SIGNAL_RELAY,
+];
+
+/**
+ * Result of a completed handshake with a peer
+ */
+export interface PeerHandshake {
+  protocolVersion: number;
+  clientId: string;
+  capabilities: Set<string>; // features both sides advertised
+}
+
+export function createHandshake(clientId: string): HandshakeMessage {
+  return {
+    type: 'handshake',
+    protocolVersion: PROTOCOL_VERSION,
+    minProtocolVersion: MIN_PROTOCOL_VERSION,
+    clientId,
+    capabilities: [...LOCAL_CAPABILITIES],
+  };
+}
+
+/**
+ * Checks that each side's version falls within the range the other accepts
+ */
+export function isCompatible(remote: HandshakeMessage): boolean {
+  return remote.protocolVersion >= MIN_PROTOCOL_VERSION &&
+    PROTOCOL_VERSION >= remote.minProtocolVersion;
+}
+
+/**
+ * Features usable with a peer are those both sides advertise
+ */
+export function negotiateCapabilities(remote: HandshakeMessage): Set<string> {
+  const remoteCapabilities = new Set(Array.isArray(remote.capabilities) ? remote.capabilities : []);
+  return new Set(LOCAL_CAPABILITIES.filter(capability => remoteCapabilities.has(capability)));
+}
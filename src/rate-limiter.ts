@@ -0,0 +1,71 @@
+/**
+ * Token-bucket rate limiting shared by every peer connection.
+ * Tokens are bytes; they refill continuously at the configured rate up to a
+ * burst capacity. A null rate means unlimited.
+ */
+
+import { P2P_CONFIG } from './constants';
+
+export class TokenBucket {
+  private rate: number | null; // bytes per second
+  private capacity = 0;
+  private tokens = 0;
+  private lastRefill: number;
+
+  constructor(bytesPerSecond: number | null = null, now: number = Date.now()) {
+    this.rate = null;
+    this.lastRefill = now;
+    this.setRate(bytesPerSecond, now);
+  }
+
+  public getRate(): number | null {
+    return this.rate;
+  }
+
+  /**
+   * Changes the rate. The burst always fits at least one full piece so a
+   * very low limit slows transfers down rather than stalling them.
+   */
+  public setRate(bytesPerSecond: number | null, now: number = Date.now()): void {
+    this.refill(now);
+    const wasUnlimited = this.rate === null;
+    this.rate = bytesPerSecond !== null && bytesPerSecond > 0 ? bytesPerSecond : null;
+    if (this.rate === null) return;
+
+    this.capacity = Math.max(this.rate * P2P_CONFIG.BANDWIDTH_BURST_SECONDS, P2P_CONFIG.CHUNK_SIZE * 2);
+    this.tokens = wasUnlimited ? this.capacity : Math.min(this.tokens, this.capacity);
+  }
+
+  /**
+   * Takes `bytes` tokens if available. Returns false (taking nothing) otherwise.
+   */
+  public tryConsume(bytes: number, now: number = Date.now()): boolean {
+    if (this.rate === null) return true;
+
+    this.refill(now);
+    // Anything larger than the bucket goes through once the bucket is full
+    const cost = Math.min(bytes, this.capacity);
+    if (this.tokens < cost) return false;
+
+    this.tokens -= cost;
+    return true;
+  }
+
+  /**
+   * Milliseconds until `bytes` tokens will be available
+   */
+  public timeUntil(bytes: number, now: number = Date.now()): number {
+    if (this.rate === null) return 0;
+
+    this.refill(now);
+    const missing = Math.min(bytes, this.capacity) - this.tokens;
+    return missing > 0 ? Math.ceil(missing / this.rate * 1000) : 0;
+  }
+
+  private refill(now: number): void {
+    if (this.rate !== null) {
+      this.tokens = Math.min(this.capacity, this.tokens + (now - this.lastRefill) / 1000 * this.rate);
+    }
+    this.lastRefill = now;
+  }
+}
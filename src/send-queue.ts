@@ -0,0 +1,127 @@
+/**
+ * Per-peer outbound queue that respects the data channel's send buffer.
+ * Messages are only handed to the channel while bufferedAmount is below the
+ * high watermark; the rest wait for 'bufferedamountlow'. Control messages
+ * always go out ahead of queued piece data, and only piece data counts
+ * against the shared upload limit.
+ */
+
+import { P2P_CONFIG } from './constants';
+import { logger } from './logger';
+import type { TokenBucket } from './rate-limiter';
+import type { PeerChannel } from './transport';
+
+export type SendPriority = 'control' | 'data';
+
+interface QueuedMessage {
+  payload: string | ArrayBuffer;
+  size: number;
+  tag?: string;
+}
+
+export interface SendQueueDepth {
+  control: number;
+  data: number;
+  queuedBytes: number;
+  bufferedAmount: number;
+}
+
+export class PeerSendQueue {
+  private control: QueuedMessage[] = [];
+  private data: QueuedMessage[] = [];
+  private retryTimer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(
+    private readonly peerId: string,
+    public readonly channel: PeerChannel,
+    private readonly uploadLimiter: TokenBucket | null = null,
+    private readonly highWatermark: number = P2P_CONFIG.SEND_BUFFER_HIGH_WATERMARK,
+    lowWatermark: number = P2P_CONFIG.SEND_BUFFER_LOW_WATERMARK
+  ) {
+    channel.bufferedAmountLowThreshold = lowWatermark;
+    channel.onbufferedamountlow = () => this.flush();
+  }
+
+  /**
+   * Queues a message and sends as much as the channel buffer allows.
+   * `tag` lets a queued message be withdrawn later with dropTagged().
+   */
+  enqueue(payload: string | ArrayBuffer, priority: SendPriority, tag?: string): void {
+    const size = typeof payload === 'string' ? payload.length : payload.byteLength;
+    const queue = priority === 'control' ? this.control : this.data;
+    queue.push({ payload, size, tag });
+    this.flush();
+  }
+
+  flush(): void {
+    while (this.channel.readyState === 'open' && this.channel.bufferedAmount < this.highWatermark) {
+      let next = this.control.shift();
+      if (!next) {
+        const piece = this.data[0];
+        if (!piece) return;
+        if (this.uploadLimiter && !this.uploadLimiter.tryConsume(piece.size)) {
+          this.scheduleRetry(this.uploadLimiter.timeUntil(piece.size));
+          return;
+        }
+        next = this.data.shift()!;
+      }
+
+      try {
+        this.channel.send(next.payload);
+      } catch (error) {
+        logger.error(`Failed to send to ${this.peerId}:`, error);
+        return;
+      }
+    }
+  }
+
+  /**
+   * Flushes again once the upload limiter has refilled
+   */
+  private scheduleRetry(delay: number): void {
+    if (this.retryTimer) return;
+    this.retryTimer = setTimeout(() => {
+      this.retryTimer = null;
+      this.flush();
+    }, delay);
+  }
+
+  /**
+   * Removes queued messages carrying the given tag, returning how many were dropped
+   */
+  dropTagged(tag: string): number {
+    const before = this.control.length + this.data.length;
+    this.control = this.control.filter(message => message.tag !== tag);
+    this.data = this.data.filter(message => message.tag !== tag);
+    return before - this.control.length - this.data.length;
+  }
+
+  /**
+   * Drops all queued piece data, keeping control messages
+   */
+  clearData(): number {
+    const dropped = this.data.length;
+    this.data = [];
+    return dropped;
+  }
+
+  getDepth(): SendQueueDepth {
+    const queuedBytes = [...this.control, ...this.data].reduce((sum, message) => sum + message.size, 0);
+    return {
+      control: this.control.length,
+      data: this.data.length,
+      queuedBytes,
+      bufferedAmount: this.channel.bufferedAmount,
+    };
+  }
+
+  clear(): void {
+    this.control = [];
+    this.data = [];
+    this.channel.onbufferedamountlow = null;
+    if (this.retryTimer) {
+      clearTimeout(this.retryTimer);
+      this.retryTimer = null;
+    }
+  }
+}
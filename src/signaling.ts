@@ -0,0 +1,52 @@
+/**
+ * Pluggable transports for WebRTC signaling (offers, answers, ICE candidates).
+ * WebRTCHandler only sees the SignalingTransport interface; P2PClient decides
+ * whether signals go through a connected neighbour, the tracker, or both.
+ */
+
+import type { OutgoingSignal } from './message-types';
+import type { TrackerConnection } from './transport';
+
+export interface SignalingTransport {
+  /** Returns false if the signal could not be handed off */
+  send(signal: OutgoingSignal): boolean;
+}
+
+/**
+ * Sends signals through the tracker, which forwards them by `to`
+ */
+export class TrackerSignaling implements SignalingTransport {
+  constructor(private readonly tracker: TrackerConnection) {}
+
+  send(signal: OutgoingSignal): boolean {
+    return this.tracker.send(signal);
+  }
+}
+
+/**
+ * Sends signals over the data channel of a connected peer that is itself
+ * connected to the target, which forwards them one hop
+ */
+export class PeerRelaySignaling implements SignalingTransport {
+  constructor(
+    private readonly findRelay: (targetId: string) => string | null,
+    private readonly sendToPeer: (relayId: string, payload: string) => boolean
+  ) {}
+
+  send(signal: OutgoingSignal): boolean {
+    const relayId = this.findRelay(signal.to);
+    if (!relayId) return false;
+    return this.sendToPeer(relayId, JSON.stringify({ type: 'relay', to: signal.to, signal }));
+  }
+}
+
+/**
+ * Tries each transport in order until one accepts the signal
+ */
+export class FallbackSignaling implements SignalingTransport {
+  constructor(private readonly transports: SignalingTransport[]) {}
+
+  send(signal: OutgoingSignal): boolean {
+    return this.transports.some(transport => transport.send(signal));
+  }
+}
@@ -1,69 +1,352 @@
 import { ModelPackage, ModelChunk, ModelSerializer } from './model-serializer';
-import { Swarm } from './types';
+import { Swarm, PeerPerformance } from './types';
 import * as Utils from './utils';
 import { P2P_CONFIG } from './constants';
 import { logger } from './logger';
+import type { PieceMessage } from './message-types';
+import type { PeerOffense } from './peer-reputation';
+import type { TokenBucket } from './rate-limiter';
+import type { ChunkStore } from './chunk-store';
 
 // Action types that SwarmManager returns for P2PClient to execute
 export interface SwarmAction {
-  type: 'request_chunk' | 'broadcast_have' | 'send_piece' | 'download_complete' | 'download_progress';
+  type: 'request_chunk' | 'cancel_request' | 'broadcast_have' | 'send_piece' | 'download_complete' | 'download_progress' | 'penalize_peer';
   peerId?: string;
   modelId: string;
   chunkIndex?: number;
   chunk?: ModelChunk;
   progress?: number;
+  offense?: PeerOffense;
+}
+
+export interface SwarmManagerOptions {
+  now?: () => number; // clock source; the simulator substitutes virtual time
+  chunkSize?: number;
+  initialPipelineDepth?: number;
+  store?: ChunkStore | null; // verified chunks and placements are written here
+}
+
+export interface RestoredModels {
+  swarms: Swarm[]; // complete models, ready to seed
+  partial: ModelPackage[]; // placements of models whose download had not finished
 }
 
 export class SwarmManager {
   private swarms = new Map<string, Swarm>();
-  private readonly CHUNKS_PER_REQUEST = P2P_CONFIG.CHUNKS_PER_REQUEST;
+  private peerPerformance = new Map<string, PeerPerformance>();
+  private readonly now: () => number;
+  private readonly store: ChunkStore | null;
+  private readonly CHUNK_SIZE: number;
+  private readonly INITIAL_PIPELINE_DEPTH: number;
+  private readonly MIN_PIPELINE_DEPTH = P2P_CONFIG.MIN_PIPELINE_DEPTH;
+  private readonly MAX_PIPELINE_DEPTH = P2P_CONFIG.MAX_PIPELINE_DEPTH;
+  private readonly SMOOTHING = P2P_CONFIG.PEER_STATS_SMOOTHING;
   private readonly REQUEST_TIMEOUT = P2P_CONFIG.REQUEST_TIMEOUT;
-
-  constructor() {}
+  private readonly ENDGAME_THRESHOLD = P2P_CONFIG.ENDGAME_THRESHOLD;
+
+  // Each request reserves a chunk's worth of download budget when it is issued
+  constructor(private readonly downloadLimiter: TokenBucket | null = null, options: SwarmManagerOptions = {}) {
+    this.now = options.now ?? Date.now;
+    this.store = options.store ?? null;
+    this.CHUNK_SIZE = options.chunkSize ?? P2P_CONFIG.CHUNK_SIZE;
+    this.INITIAL_PIPELINE_DEPTH = options.initialPipelineDepth ?? P2P_CONFIG.CHUNKS_PER_REQUEST;
+  }
 
   public getSwarms(): Map<string, Swarm> {
     return this.swarms;
   }
 
-  public createSwarm(modelId: string, metadata: ModelPackage, chunks: ModelChunk[] = []) {
-    const isSeeder = chunks.length > 0;
+  public getPeerPerformance(peerId: string): PeerPerformance | undefined {
+    return this.peerPerformance.get(peerId);
+  }
+
+  private getOrCreatePerformance(peerId: string): PeerPerformance {
+    let performance = this.peerPerformance.get(peerId);
+    if (!performance) {
+      performance = {
+        rtt: 0,
+        minRtt: 0,
+        throughput: 0,
+        window: this.INITIAL_PIPELINE_DEPTH,
+        lastPieceAt: 0,
+        samples: 0
+      };
+      this.peerPerformance.set(peerId, performance);
+    }
+    return performance;
+  }
+
+  /**
+   * Updates a peer's round-trip times and smoothed throughput from one piece, then
+   * resizes its request window toward the bandwidth-delay product
+   */
+  private recordPieceTiming(peerId: string, requestedAt: number, bytes: number, now: number): void {
+    const performance = this.getOrCreatePerformance(peerId);
+    const rtt = Math.max(now - requestedAt, 1);
+
+    // While the pipeline is full, the gap between pieces reflects link throughput better than RTT
+    const interval = performance.lastPieceAt > 0 ? Math.min(rtt, Math.max(now - performance.lastPieceAt, 1)) : rtt;
+    const throughput = bytes / (interval / 1000);
+
+    if (performance.samples === 0) {
+      performance.rtt = rtt;
+      performance.minRtt = rtt;
+      performance.throughput = throughput;
+    } else {
+      performance.rtt += (rtt - performance.rtt) * this.SMOOTHING;
+      performance.minRtt = Math.min(performance.minRtt, rtt);
+      performance.throughput += (throughput - performance.throughput) * this.SMOOTHING;
+    }
+    performance.samples++;
+    performance.lastPieceAt = now;
+
+    // Measured rtt includes time queued behind our own earlier requests, so it grows with
+    // the window; sizing from it would push every window to the maximum. The base RTT does not.
+    const bandwidthDelay = Math.ceil(performance.throughput * (performance.minRtt / 1000) / this.CHUNK_SIZE) + 1;
+    const target = Math.min(this.MAX_PIPELINE_DEPTH, Math.max(this.MIN_PIPELINE_DEPTH, bandwidthDelay));
+    // Grow one step at a time, shrink straight to the target
+    performance.window = target > performance.window ? performance.window + 1 : target;
+  }
+
+  /**
+   * Halves a peer's window after a request to it expires
+   */
+  private recordTimeout(peerId: string): void {
+    const performance = this.getOrCreatePerformance(peerId);
+    performance.window = Math.max(this.MIN_PIPELINE_DEPTH, Math.floor(performance.window / 2));
+  }
+
+  public createSwarm(modelId: string, metadata: ModelPackage, chunks: ModelChunk[] = []): Swarm {
+    const swarm = this.buildSwarm(modelId, metadata, chunks);
+    this.persistPlacement(metadata);
+    chunks.forEach(chunk => this.persistChunk(chunk));
+    return swarm;
+  }
+
+  /**
+   * Starts a download, picking up whatever verified chunks storage already
+   * holds for the model, so an interrupted download continues where it stopped
+   */
+  public async resumeSwarm(modelId: string, metadata: ModelPackage): Promise<Swarm> {
+    let stored: ModelChunk[] = [];
+    try {
+      stored = this.store ? await this.store.loadChunks(modelId) : [];
+    } catch (error) {
+      logger.error(`Failed to read stored chunks of ${modelId}, downloading it from scratch:`, error);
+    }
+
+    const chunks: ModelChunk[] = [];
+    for (const chunk of stored) {
+      if (await ModelSerializer.verifyChunk(chunk, metadata.metadata.pieceHashes[chunk.index])) {
+        chunks.push(chunk);
+      }
+    }
+
+    // Another caller may have started the same download while storage was read
+    const existing = this.swarms.get(modelId);
+    if (existing) return existing;
+
+    if (chunks.length > 0) {
+      logger.info(`Resuming ${modelId} with ${chunks.length}/${metadata.metadata.totalChunks} chunks from storage`);
+    }
+    const swarm = this.buildSwarm(modelId, metadata, chunks);
+    this.persistPlacement(metadata);
+    return swarm;
+  }
+
+  private buildSwarm(modelId: string, metadata: ModelPackage, chunks: ModelChunk[]): Swarm {
+    const totalChunks = metadata.metadata.totalChunks;
     const swarm: Swarm = {
       modelId,
       metadata,
-      ownChunks: new Set(chunks.map((_, idx) => idx)),
+      placements: new Map([[metadata.placementId, metadata]]),
+      ownChunks: new Set(chunks.map(chunk => chunk.index)),
       requestedChunks: new Map(),
+      expiredRequests: new Map(),
+      askedPeers: new Map(),
+      stats: { timeouts: 0, latePieces: 0, duplicatePieces: 0 },
+      inEndgame: false,
       receivedChunks: new Map(chunks.map(c => [c.index, c])),
-      totalChunks: isSeeder ? chunks.length : metadata.metadata.totalChunks,
-      startTime: isSeeder ? undefined : Date.now()
+      totalChunks,
+      startTime: chunks.length === totalChunks ? undefined : this.now()
     };
     this.swarms.set(modelId, swarm);
     return swarm;
   }
 
-  public handlePiece(peerId: string, message: any, peerBitfields: Map<string, Map<string, Uint8Array>>): SwarmAction[] {
-    const { modelId, chunkIndex, data, checksum } = message;
+  /**
+   * Records another placement of a model we already have a swarm for.
+   * Returns false if the swarm is unknown or the placement was already recorded.
+   */
+  public addPlacement(modelPackage: ModelPackage): boolean {
+    const swarm = this.swarms.get(modelPackage.id);
+    if (!swarm || swarm.placements.has(modelPackage.placementId)) return false;
+
+    swarm.placements.set(modelPackage.placementId, modelPackage);
+    this.persistPlacement(modelPackage);
+    return true;
+  }
+
+  /**
+   * Adds already verified chunks that arrived outside the swarm, such as
+   * from an imported world archive. Returns cancels for the requests still
+   * outstanding for them.
+   */
+  public addChunks(modelId: string, chunks: ModelChunk[]): SwarmAction[] {
     const actions: SwarmAction[] = [];
-    
     const swarm = this.swarms.get(modelId);
     if (!swarm) return actions;
 
+    chunks.forEach(chunk => {
+      if (swarm.ownChunks.has(chunk.index)) return;
+      swarm.ownChunks.add(chunk.index);
+      swarm.receivedChunks.set(chunk.index, chunk);
+      this.persistChunk(chunk);
+
+      swarm.requestedChunks.get(chunk.index)?.forEach(request => {
+        actions.push({ type: 'cancel_request', peerId: request.peerId, modelId, chunkIndex: chunk.index });
+      });
+      swarm.requestedChunks.delete(chunk.index);
+      swarm.expiredRequests.delete(chunk.index);
+    });
+    return actions;
+  }
+
+  /**
+   * Drops a swarm along with anything stored for it
+   */
+  public removeSwarm(modelId: string): void {
+    this.swarms.delete(modelId);
+    this.store?.deleteModel(modelId).catch(error => logger.error(`Failed to delete ${modelId} from storage:`, error));
+  }
+
+  /**
+   * Recreates swarms for every fully stored model, checking the reassembled
+   * content against its ID. Partially stored models are only reported, so
+   * the caller can resume them through resumeSwarm() when it chooses.
+   */
+  public async restore(): Promise<RestoredModels> {
+    const restored: RestoredModels = { swarms: [], partial: [] };
+    if (!this.store) return restored;
+
+    const placementsByModel = new Map<string, ModelPackage[]>();
+    (await this.store.loadPlacements()).forEach(placement => {
+      const placements = placementsByModel.get(placement.id) ?? [];
+      placements.push(placement);
+      placementsByModel.set(placement.id, placements);
+    });
+
+    for (const [modelId, placements] of placementsByModel) {
+      if (this.swarms.has(modelId)) continue;
+
+      const [first, ...rest] = placements;
+      const chunks = (await this.store.loadChunks(modelId)).sort((a, b) => a.index - b.index);
+      if (chunks.length !== first.metadata.totalChunks) {
+        logger.debug(`Stored model ${modelId} is incomplete (${chunks.length}/${first.metadata.totalChunks} chunks)`);
+        restored.partial.push(...placements);
+        continue;
+      }
+
+      const contentId = await ModelSerializer.computeModelId(ModelSerializer.reassembleChunks(chunks));
+      if (contentId !== modelId) {
+        logger.warn(`Stored model ${modelId} is corrupt, deleting it`);
+        await this.store.deleteModel(modelId);
+        continue;
+      }
+
+      const swarm = this.buildSwarm(modelId, first, chunks);
+      rest.forEach(placement => swarm.placements.set(placement.placementId, placement));
+      restored.swarms.push(swarm);
+    }
+    return restored;
+  }
+
+  private persistPlacement(modelPackage: ModelPackage): void {
+    this.store?.savePlacement(modelPackage).catch(error => logger.error(`Failed to store placement ${modelPackage.placementId}:`, error));
+  }
+
+  private persistChunk(chunk: ModelChunk): void {
+    this.store?.saveChunk(chunk).catch(error => logger.error(`Failed to store chunk ${chunk.index} of ${chunk.modelId}:`, error));
+  }
+
+  public isComplete(modelId: string): boolean {
+    const swarm = this.swarms.get(modelId);
+    return !!swarm && swarm.ownChunks.size === swarm.totalChunks;
+  }
+
+  public async handlePiece(peerId: string, message: PieceMessage, peerBitfields: Map<string, Map<string, Uint8Array>>): Promise<SwarmAction[]> {
+    const { modelId, chunkIndex, data } = message;
+    const actions: SwarmAction[] = [];
+    
+    const swarm = this.swarms.get(modelId);
+    if (!swarm || !swarm.metadata) {
+      logger.warn(`Unsolicited chunk ${chunkIndex} from ${peerId} for unknown model ${modelId}`);
+      actions.push({ type: 'penalize_peer', peerId, modelId, offense: 'unsolicited_piece' });
+      return actions;
+    }
+
+    if (!Number.isInteger(chunkIndex) || chunkIndex < 0 || chunkIndex >= swarm.totalChunks) {
+      logger.warn(`Chunk index ${chunkIndex} from ${peerId} is out of range for ${modelId}`);
+      actions.push({ type: 'penalize_peer', peerId, modelId, offense: 'malformed_message' });
+      return actions;
+    }
+
+    if (swarm.ownChunks.size === swarm.totalChunks) {
+      swarm.stats.duplicatePieces++;
+      return actions;
+    }
+
+    if (!swarm.askedPeers.get(chunkIndex)?.has(peerId)) {
+      logger.warn(`Unsolicited chunk ${chunkIndex} from ${peerId}, dropping`);
+      actions.push({ type: 'penalize_peer', peerId, modelId, offense: 'unsolicited_piece' });
+      return actions;
+    }
+
     const chunk: ModelChunk = {
       modelId,
       index: chunkIndex,
       total: swarm.totalChunks,
-      data: Utils.base64ToArrayBuffer(data),
-      checksum
+      data
     };
 
-    if (!ModelSerializer.verifyChunk(chunk)) {
-      logger.error(`Chunk ${chunkIndex} failed verification`);
-      swarm.requestedChunks.delete(chunkIndex);
+    // Verify against the author's piece hashes, never against anything the sender supplied
+    const expectedHash = swarm.metadata.metadata.pieceHashes[chunkIndex];
+    if (!(await ModelSerializer.verifyChunk(chunk, expectedHash))) {
+      logger.error(`Chunk ${chunkIndex} from ${peerId} failed verification`);
+      this.removeRequest(swarm, chunkIndex, peerId);
+      this.markFailed(swarm, chunkIndex, peerId);
+      actions.push({ type: 'penalize_peer', peerId, modelId, offense: 'failed_verification' });
       return actions;
     }
 
+    if (swarm.expiredRequests.get(chunkIndex)?.has(peerId)) {
+      swarm.stats.latePieces++;
+      logger.debug(`Late chunk ${chunkIndex} from ${peerId} arrived after its request expired`);
+    }
+
+    if (swarm.ownChunks.has(chunkIndex)) {
+      swarm.stats.duplicatePieces++;
+      logger.debug(`Duplicate chunk ${chunkIndex} from ${peerId}, ignoring`);
+      return actions;
+    }
+
+    const request = swarm.requestedChunks.get(chunkIndex)?.find(r => r.peerId === peerId);
+    if (request) {
+      this.recordPieceTiming(peerId, request.requestedAt, data.byteLength, this.now());
+    }
+
     swarm.receivedChunks.set(chunkIndex, chunk);
     swarm.ownChunks.add(chunkIndex);
+    this.persistChunk(chunk);
+
+    // Withdraw the duplicate requests endgame mode sent to other peers
+    swarm.requestedChunks.get(chunkIndex)?.forEach(request => {
+      if (request.peerId !== peerId) {
+        actions.push({ type: 'cancel_request', peerId: request.peerId, modelId, chunkIndex });
+      }
+    });
     swarm.requestedChunks.delete(chunkIndex);
+    swarm.expiredRequests.delete(chunkIndex);
 
     logger.swarm(`Chunk ${chunkIndex}/${swarm.totalChunks} from ${peerId} (${Math.round(swarm.ownChunks.size / swarm.totalChunks * 100)}%)`);
 
@@ -72,9 +355,8 @@ export class SwarmManager {
     const progress = swarm.ownChunks.size / swarm.totalChunks * 100;
     actions.push({ type: 'download_progress', modelId, progress });
 
-    this.checkTimeouts(swarm);
-
     if (swarm.ownChunks.size === swarm.totalChunks) {
+      swarm.askedPeers.clear();
       actions.push({ type: 'download_complete', modelId });
     } else {
       actions.push(...this.requestMoreChunks(modelId, peerBitfields));
@@ -84,23 +366,172 @@ export class SwarmManager {
   }
 
   /**
-   * Check for timed out chunk requests and clear them
+   * Periodic scheduler entry point: expires stale requests in every incomplete
+   * swarm and re-requests the affected chunks, preferring a different peer
    */
-  private checkTimeouts(swarm: Swarm): void {
-    const now = Date.now();
-    const timeoutsToRemove: number[] = [];
-    
-    swarm.requestedChunks.forEach((peerId, chunkIndex) => {
-      if (swarm.startTime && now - swarm.startTime > this.REQUEST_TIMEOUT) {
-        timeoutsToRemove.push(chunkIndex);
+  public tick(peerBitfields: Map<string, Map<string, Uint8Array>>): SwarmAction[] {
+    const actions: SwarmAction[] = [];
+    const now = this.now();
+
+    this.swarms.forEach((swarm, modelId) => {
+      if (swarm.ownChunks.size === swarm.totalChunks) return;
+
+      actions.push(...this.expireStaleRequests(swarm, now));
+      actions.push(...this.requestMoreChunks(modelId, peerBitfields));
+    });
+
+    return actions;
+  }
+
+  /**
+   * Drops requests that have been outstanding longer than REQUEST_TIMEOUT,
+   * remembering which peer let each one lapse
+   */
+  private expireStaleRequests(swarm: Swarm, now: number): SwarmAction[] {
+    const actions: SwarmAction[] = [];
+    swarm.requestedChunks.forEach((requests, chunkIndex) => {
+      requests.forEach(request => {
+        if (now - request.requestedAt <= this.REQUEST_TIMEOUT) return;
+
+        logger.warn(`Request timeout for chunk ${chunkIndex} from ${request.peerId}`);
+        this.removeRequest(swarm, chunkIndex, request.peerId);
+        this.recordTimeout(request.peerId);
+        swarm.stats.timeouts++;
+        this.markFailed(swarm, chunkIndex, request.peerId);
+        actions.push({ type: 'penalize_peer', peerId: request.peerId, modelId: swarm.modelId, offense: 'timeout' });
+      });
+    });
+    return actions;
+  }
+
+  /**
+   * Remembers that a peer let us down on a chunk so canRequestFrom() looks elsewhere first
+   */
+  private markFailed(swarm: Swarm, chunkIdx: number, peerId: string): void {
+    let expiredPeers = swarm.expiredRequests.get(chunkIdx);
+    if (!expiredPeers) {
+      expiredPeers = new Set();
+      swarm.expiredRequests.set(chunkIdx, expiredPeers);
+    }
+    expiredPeers.add(peerId);
+  }
+
+  /**
+   * Releases every outstanding request to a peer (e.g. after it disconnects)
+   * so the chunks can be requested elsewhere
+   */
+  public releasePeerRequests(peerId: string): void {
+    this.swarms.forEach(swarm => {
+      Array.from(swarm.requestedChunks.keys()).forEach(chunkIndex => {
+        this.removeRequest(swarm, chunkIndex, peerId);
+      });
+    });
+  }
+
+  /**
+   * Forgets a disconnected peer: releases its requests and drops its measurements
+   */
+  public removePeer(peerId: string): void {
+    this.releasePeerRequests(peerId);
+    this.peerPerformance.delete(peerId);
+  }
+
+  /**
+   * A peer that let a request for this chunk expire is only asked again
+   * if every peer holding the chunk has also timed out on it
+   */
+  private canRequestFrom(swarm: Swarm, chunkIdx: number, peerId: string, peerBitfields: Map<string, Map<string, Uint8Array>>): boolean {
+    const expiredPeers = swarm.expiredRequests.get(chunkIdx);
+    if (!expiredPeers?.has(peerId)) return true;
+
+    for (const [otherPeerId, bitfields] of peerBitfields) {
+      const bitfield = bitfields.get(swarm.modelId);
+      if (!expiredPeers.has(otherPeerId) && bitfield && Utils.hasBit(bitfield, chunkIdx)) {
+        return false;
       }
+    }
+    return true;
+  }
+
+  private reserveDownload(): boolean {
+    return !this.downloadLimiter || this.downloadLimiter.tryConsume(this.CHUNK_SIZE, this.now());
+  }
+
+  private recordRequest(swarm: Swarm, chunkIdx: number, peerId: string): void {
+    const request = { peerId, requestedAt: this.now() };
+    const requests = swarm.requestedChunks.get(chunkIdx);
+    if (requests) {
+      requests.push(request);
+    } else {
+      swarm.requestedChunks.set(chunkIdx, [request]);
+    }
+
+    let asked = swarm.askedPeers.get(chunkIdx);
+    if (!asked) {
+      asked = new Set();
+      swarm.askedPeers.set(chunkIdx, asked);
+    }
+    asked.add(peerId);
+  }
+
+  private removeRequest(swarm: Swarm, chunkIdx: number, peerId: string): void {
+    const requests = swarm.requestedChunks.get(chunkIdx);
+    if (!requests) return;
+
+    const remaining = requests.filter(request => request.peerId !== peerId);
+    if (remaining.length > 0) {
+      swarm.requestedChunks.set(chunkIdx, remaining);
+    } else {
+      swarm.requestedChunks.delete(chunkIdx);
+    }
+  }
+
+  /**
+   * Outstanding requests to a peer across all swarms, compared against its window
+   */
+  private countPeerRequests(peerId: string): number {
+    let count = 0;
+    this.swarms.forEach(swarm => {
+      swarm.requestedChunks.forEach(requests => {
+        count += requests.filter(request => request.peerId === peerId).length;
+      });
     });
-    
-    timeoutsToRemove.forEach(chunkIndex => {
-      const peerId = swarm.requestedChunks.get(chunkIndex);
-      logger.warn(`Request timeout for chunk ${chunkIndex} from ${peerId}`);
-      swarm.requestedChunks.delete(chunkIndex);
+    return count;
+  }
+
+  public hasOutstandingRequests(peerId: string): boolean {
+    return this.countPeerRequests(peerId) > 0;
+  }
+
+  /**
+   * Endgame: once every missing chunk is already requested and only a few remain,
+   * ask every peer that has a missing chunk for it so the slowest peer cannot
+   * hold up completion. The first copy to arrive cancels the rest.
+   */
+  private requestEndgameChunks(swarm: Swarm, peerBitfields: Map<string, Map<string, Uint8Array>>): SwarmAction[] {
+    const actions: SwarmAction[] = [];
+    const remaining = swarm.totalChunks - swarm.ownChunks.size;
+    if (remaining === 0 || remaining > this.ENDGAME_THRESHOLD) return actions;
+
+    if (!swarm.inEndgame) {
+      swarm.inEndgame = true;
+      logger.swarm(`Entering endgame for ${swarm.modelId} (${remaining} chunks left)`);
+    }
+
+    swarm.requestedChunks.forEach((requests, chunkIdx) => {
+      peerBitfields.forEach((bitfields, peerId) => {
+        const bitfield = bitfields.get(swarm.modelId);
+        if (!bitfield || !Utils.hasBit(bitfield, chunkIdx)) return;
+        if (requests.some(request => request.peerId === peerId)) return;
+        if (swarm.expiredRequests.get(chunkIdx)?.has(peerId)) return;
+        if (!this.reserveDownload()) return;
+
+        actions.push({ type: 'request_chunk', peerId, modelId: swarm.modelId, chunkIndex: chunkIdx });
+        this.recordRequest(swarm, chunkIdx, peerId);
+      });
     });
+
+    return actions;
   }
 
   public requestMoreChunks(modelId: string, peerBitfields: Map<string, Map<string, Uint8Array>>): SwarmAction[] {
@@ -115,7 +546,7 @@ export class SwarmManager {
       }
     }
 
-    if (needed.length === 0) return actions;
+    if (needed.length === 0) return this.requestEndgameChunks(swarm, peerBitfields);
 
     const rarity = new Map<number, number>();
     needed.forEach(chunkIdx => {
@@ -131,22 +562,30 @@ export class SwarmManager {
 
     needed.sort((a, b) => (rarity.get(a) || 0) - (rarity.get(b) || 0));
 
-    peerBitfields.forEach((bitfields, peerId) => {
-      const bitfield = bitfields.get(modelId);
+    // Fastest peers pick first, so the rarest remaining chunks go to them
+    const peersBySpeed = Array.from(peerBitfields.keys()).sort((a, b) =>
+      (this.peerPerformance.get(b)?.throughput || 0) - (this.peerPerformance.get(a)?.throughput || 0)
+    );
+
+    peersBySpeed.forEach(peerId => {
+      const bitfield = peerBitfields.get(peerId)!.get(modelId);
       if (!bitfield) return;
 
-      const peerRequests = Array.from(swarm.requestedChunks.values())
-        .filter(p => p === peerId).length;
+      const peerRequests = this.countPeerRequests(peerId);
+      const window = this.peerPerformance.get(peerId)?.window ?? this.INITIAL_PIPELINE_DEPTH;
 
-      if (peerRequests >= this.CHUNKS_PER_REQUEST) return;
+      if (peerRequests >= window) return;
 
       let requestedThisRound = 0;
       for (const chunkIdx of needed) {
-        if (peerRequests + requestedThisRound >= this.CHUNKS_PER_REQUEST) break;
+        if (peerRequests + requestedThisRound >= window) break;
         
-        if (Utils.hasBit(bitfield, chunkIdx) && !swarm.requestedChunks.has(chunkIdx)) {
+        if (Utils.hasBit(bitfield, chunkIdx) &&
+            !swarm.requestedChunks.has(chunkIdx) &&
+            this.canRequestFrom(swarm, chunkIdx, peerId, peerBitfields)) {
+          if (!this.reserveDownload()) break;
           actions.push({ type: 'request_chunk', peerId, modelId, chunkIndex: chunkIdx });
-          swarm.requestedChunks.set(chunkIdx, peerId);
+          this.recordRequest(swarm, chunkIdx, peerId);
           requestedThisRound++;
         }
       }
@@ -164,8 +603,9 @@ export class SwarmManager {
       if (!swarm.ownChunks.has(i) &&
           !swarm.requestedChunks.has(i) &&
           Utils.hasBit(peerBitfield, i)) {
+        if (!this.reserveDownload()) break;
         actions.push({ type: 'request_chunk', peerId, modelId, chunkIndex: i });
-        swarm.requestedChunks.set(i, peerId);
+        this.recordRequest(swarm, i, peerId);
         break;
       }
     }
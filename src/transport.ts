@@ -0,0 +1,92 @@
+/**
+ * Boundaries between P2PClient's protocol logic and the environment it runs in.
+ * The browser uses a WebSocket tracker, WebRTC peer links and a Babylon.js
+ * scene (websocket-tracker.ts, webrtc-handler.ts, babylon-sink.ts); memory-transport.ts provides
+ * in-process versions so the same client runs in Node.
+ */
+
+import type { TrackerMessage, OutgoingTrackerMessage, OutgoingSignal } from './message-types';
+import type { ModelPackage, ModelChunk, Vec3 } from './model-serializer';
+import type { SignalingTransport } from './signaling';
+import type { Peer } from './types';
+import type { ChunkStore } from './chunk-store';
+
+/**
+ * Connection to the tracker. Implementations handle their own reconnects and
+ * call onOpen again after each one.
+ */
+export interface TrackerConnection {
+  onOpen: () => void;
+  onMessage: (message: TrackerMessage) => void;
+  onClose: () => void;
+  connect(): void;
+  isOpen(): boolean;
+  /** Returns false if the tracker is not connected */
+  send(message: OutgoingTrackerMessage): boolean;
+  close(): void;
+}
+
+export type ChannelState = 'connecting' | 'open' | 'closing' | 'closed';
+
+/**
+ * The parts of RTCDataChannel the client and its send queues rely on
+ */
+export interface PeerChannel {
+  readonly readyState: ChannelState;
+  readonly bufferedAmount: number;
+  bufferedAmountLowThreshold: number;
+  onbufferedamountlow: ((event: Event) => void) | null;
+  send(data: string | ArrayBuffer): void;
+  close(): void;
+}
+
+export interface PeerConnectionInfo {
+  connectionState: string;
+  candidateTypes: string[];
+}
+
+/**
+ * Manages links to individual peers. Signals (offers, answers, candidates)
+ * are only meaningful to transports that need them; others may ignore them.
+ */
+export interface PeerTransport {
+  onPeerConnected: (peerId: string) => void;
+  onPeerDisconnected: (peerId: string) => void;
+  onDataChannelMessage: (peerId: string, data: string | ArrayBuffer) => void;
+  onDataChannelOpen: (peerId: string) => void;
+  // Consulted before any link is created or accepted (e.g. to refuse banned peers)
+  isPeerAllowed: (peerId: string) => boolean;
+
+  getPeer(peerId: string): Peer | undefined;
+  getAllPeers(): Map<string, Peer>;
+  getConnectionInfo(peerId: string): PeerConnectionInfo | null;
+  connect(peerId: string): Promise<Peer | null>;
+  handleSignal(from: string, signal: OutgoingSignal): Promise<void>;
+  handlePeerDisconnect(peerId: string): void;
+  disconnectAll(): void;
+}
+
+export type PeerTransportFactory = (signaling: SignalingTransport, getLocalId: () => string | null) => PeerTransport;
+
+/**
+ * Where downloaded models end up: the 3D scene in the browser, a record in tests
+ */
+export interface ModelSink {
+  /** Shows a stand-in for a queued or downloading placement; null progress means queued */
+  showPlaceholder(modelPackage: ModelPackage, progress: number | null): void;
+  updatePlaceholder(placementId: string, progress: number): void;
+  removePlaceholder(placementId: string): void;
+  /** Renders a placement from its verified chunks. Resolves false if nothing was placed. */
+  placeModel(modelPackage: ModelPackage, chunks: ModelChunk[]): Promise<boolean>;
+  /** Point that area-of-interest distances are measured from */
+  getViewerPosition(): Vec3;
+  dispose(): void;
+}
+
+export interface P2PClientOptions {
+  tracker: TrackerConnection;
+  createPeerTransport: PeerTransportFactory;
+  sink: ModelSink;
+  store?: ChunkStore; // without one, downloaded models only last as long as the client
+  cacheBudget?: number; // bytes of stored models; defaults to P2P_CONFIG.CACHE_BUDGET
+}
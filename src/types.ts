@@ -1,20 +1,80 @@
 import { ModelPackage, ModelChunk } from './model-serializer';
+import type { PeerHandshake } from './protocol';
+import type { SendQueueDepth } from './send-queue';
+import type { ReputationRecord } from './peer-reputation';
+import type { PeerChannel, ChannelState } from './transport';
 
 export interface Peer {
   id: string;
-  connection: RTCPeerConnection;
-  dataChannel: RTCDataChannel | null;
+  dataChannel: PeerChannel | null;
   isInitiator: boolean;
   bitfield: Map<string, Uint8Array>; // modelId → bitfield of chunks
   lastActivity: number;
+  handshake?: PeerHandshake; // set once the protocol handshake has completed
+  amChoking: boolean; // we are not serving this peer's requests
+  amInterested: boolean; // this peer has chunks we need
+  peerChoking: boolean; // this peer is not serving our requests
+  peerInterested: boolean; // we have chunks this peer needs
+}
+
+export interface ChunkRequest {
+  peerId: string;
+  requestedAt: number;
+}
+
+/**
+ * Smoothed transfer measurements for one peer, used to size its request window
+ */
+export interface PeerPerformance {
+  rtt: number; // ms from request to piece
+  minRtt: number; // lowest rtt seen: the link's delay without requests queued ahead
+  throughput: number; // bytes per second
+  window: number; // max outstanding requests
+  lastPieceAt: number;
+  samples: number;
+}
+
+export interface SwarmStats {
+  timeouts: number; // requests that expired before their piece arrived
+  latePieces: number; // pieces that arrived after their request expired
+  duplicatePieces: number; // valid pieces received for chunks we already had
 }
 
 export interface Swarm {
   modelId: string;
   metadata?: ModelPackage;
+  placements: Map<string, ModelPackage>; // placementId → package
   ownChunks: Set<number>;
-  requestedChunks: Map<number, string>;
+  requestedChunks: Map<number, ChunkRequest[]>; // several requests per chunk only in endgame
+  expiredRequests: Map<number, Set<string>>; // chunkIndex → peers whose request for it expired or returned a corrupt piece
+  askedPeers: Map<number, Set<string>>; // chunkIndex → every peer asked for it, so late pieces are not unsolicited
+  stats: SwarmStats;
+  inEndgame: boolean;
   receivedChunks: Map<number, ModelChunk>;
   totalChunks: number;
   startTime?: number;
+}
+
+export interface BandwidthLimits {
+  uploadBytesPerSecond: number | null; // null = unlimited
+  downloadBytesPerSecond: number | null;
+}
+
+export interface PeerDiagnostics {
+  peerId: string;
+  connectionState: string; // as reported by the peer transport, e.g. RTCPeerConnectionState
+  channelState: ChannelState | 'none';
+  handshakeComplete: boolean;
+  capabilities: string[];
+  candidateTypes: string[];
+  sendQueue: SendQueueDepth | null;
+  amChoking: boolean;
+  amInterested: boolean;
+  peerChoking: boolean;
+  peerInterested: boolean;
+  optimisticUnchoke: boolean;
+  recentBytesDown: number;
+  recentBytesUp: number;
+  pipeline: PeerPerformance | null;
+  reputation: ReputationRecord | null;
 }
\ No newline at end of file
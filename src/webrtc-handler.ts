@@ -1,6 +1,20 @@
 import { Peer } from './types';
 import { P2P_CONFIG } from './constants';
 import { logger } from './logger';
+import type { SignalingTransport } from './signaling';
+import type { OutgoingSignal } from './message-types';
+import type { PeerTransport, PeerConnectionInfo } from './transport';
+
+export interface WebRTCPeer extends Peer {
+  connection: RTCPeerConnection;
+  dataChannel: RTCDataChannel | null;
+  polite: boolean; // perfect negotiation role: the polite side yields on offer collisions
+  makingOffer: boolean;
+  ignoreOffer: boolean;
+  settingRemoteAnswer: boolean;
+  pendingCandidates: RTCIceCandidateInit[]; // remote candidates waiting for the remote description
+  candidateTypes: Set<string>; // local ICE candidate types gathered (host, srflx, relay...)
+}
 
 const getRTCConfig = (): RTCConfiguration => {
   const iceServers: RTCIceServer[] = [];
@@ -33,63 +47,117 @@ const getRTCConfig = (): RTCConfiguration => {
 
 const RTC_CONFIG = getRTCConfig();
 
-export class WebRTCHandler {
-  private peers = new Map<string, Peer>();
-  private ws: WebSocket;
+export class WebRTCHandler implements PeerTransport {
+  private peers = new Map<string, WebRTCPeer>();
+  private signaling: SignalingTransport;
   private rtcConfig: RTCConfiguration;
   private readonly MAX_PEERS = P2P_CONFIG.MAX_PEERS;
   private disconnectTimeouts = new Map<string, NodeJS.Timeout>();
+  // Candidates that arrived before their peer connection was created
+  private orphanCandidates = new Map<string, { candidates: RTCIceCandidateInit[]; expiry: ReturnType<typeof setTimeout> }>();
 
   public onPeerConnected: (peerId: string) => void = () => {};
   public onPeerDisconnected: (peerId: string) => void = () => {};
-  public onDataChannelMessage: (peerId: string, data: any) => void = () => {};
+  public onDataChannelMessage: (peerId: string, data: string | ArrayBuffer) => void = () => {};
   public onDataChannelOpen: (peerId: string) => void = () => {};
-
-  constructor(ws: WebSocket, rtcConfig: RTCConfiguration = RTC_CONFIG) {
-    this.ws = ws;
+  // Consulted before any connection is created or accepted (e.g. to refuse banned peers)
+  public isPeerAllowed: (peerId: string) => boolean = () => true;
+
+  constructor(
+    signaling: SignalingTransport,
+    private readonly getLocalId: () => string | null,
+    rtcConfig: RTCConfiguration = RTC_CONFIG
+  ) {
+    this.signaling = signaling;
     this.rtcConfig = rtcConfig;
   }
 
-  public getPeer(peerId: string): Peer | undefined {
+  public getPeer(peerId: string): WebRTCPeer | undefined {
     return this.peers.get(peerId);
   }
 
-  public getAllPeers(): Map<string, Peer> {
+  public getAllPeers(): Map<string, WebRTCPeer> {
     return this.peers;
   }
 
-  public async createPeerConnection(peerId: string, isInitiator: boolean): Promise<Peer | null> {
+  public getConnectionInfo(peerId: string): PeerConnectionInfo | null {
+    const peer = this.peers.get(peerId);
+    if (!peer) return null;
+    return {
+      connectionState: peer.connection.connectionState,
+      candidateTypes: Array.from(peer.candidateTypes),
+    };
+  }
+
+  public connect(peerId: string): Promise<WebRTCPeer | null> {
+    return this.createPeerConnection(peerId, true);
+  }
+
+  /**
+   * Applies an offer, answer or ICE candidate, whether it came from the tracker or a relay
+   */
+  public async handleSignal(from: string, signal: OutgoingSignal): Promise<void> {
+    switch (signal.type) {
+      case 'offer':
+        await this.handleOffer(from, signal.offer);
+        break;
+      case 'answer':
+        await this.handleAnswer(from, signal.answer);
+        break;
+      case 'ice-candidate':
+        await this.handleIceCandidate(from, signal.candidate);
+        break;
+    }
+  }
+
+  public async createPeerConnection(peerId: string, isInitiator: boolean): Promise<WebRTCPeer | null> {
     if (this.peers.has(peerId)) {
       logger.debug(`Peer ${peerId} already exists, reusing connection`);
       return this.peers.get(peerId)!;
     }
 
+    if (!this.isPeerAllowed(peerId)) {
+      logger.warn(`Refusing connection with banned peer ${peerId}`);
+      return null;
+    }
+
     if (this.peers.size >= this.MAX_PEERS) {
       logger.warn(`Max peers reached (${this.MAX_PEERS}), not connecting to ${peerId}`);
       return null;
     }
 
-    logger.webrtc(`Creating connection with ${peerId} (initiator: ${isInitiator})`);
+    // Both ends must agree on roles without talking: the higher ID is polite
+    const localId = this.getLocalId();
+    const polite = localId === null || localId > peerId;
+    logger.webrtc(`Creating connection with ${peerId} (initiator: ${isInitiator}, ${polite ? 'polite' : 'impolite'})`);
 
     const pc = new RTCPeerConnection(this.rtcConfig);
-    const peer: Peer = {
+    const peer: WebRTCPeer = {
       id: peerId,
       connection: pc,
       dataChannel: null,
       isInitiator,
+      polite,
+      makingOffer: false,
+      ignoreOffer: false,
+      settingRemoteAnswer: false,
       bitfield: new Map(),
-      lastActivity: Date.now()
+      lastActivity: Date.now(),
+      pendingCandidates: this.takeOrphanCandidates(peerId),
+      candidateTypes: new Set(),
+      amChoking: true,
+      amInterested: false,
+      peerChoking: true,
+      peerInterested: false
     };
 
-    const candidateTypes = new Set<string>();
-
     pc.onicecandidate = (event) => {
-      if (event.candidate && this.ws) {
+      if (event.candidate) {
         const candidateType = event.candidate.type || 'unknown';
         const candidateStr = event.candidate.candidate || '';
         
         if (candidateType !== 'unknown') {
-          candidateTypes.add(candidateType);
+          peer.candidateTypes.add(candidateType);
         }
         
         logger.debug(`ICE candidate for ${peerId}:`, {
@@ -99,18 +167,16 @@ export class WebRTCHandler {
         });
         
         try {
-          this.ws.send(JSON.stringify({
-            type: 'ice-candidate',
-            to: peerId,
-            candidate: event.candidate
-          }));
+          if (!this.signaling.send({ type: 'ice-candidate', to: peerId, candidate: event.candidate.toJSON() })) {
+            logger.warn(`No signaling route to ${peerId}, ICE candidate not sent`);
+          }
         } catch (error) {
           logger.error(`Failed to send ICE candidate to ${peerId}:`, error);
         }
       } else if (!event.candidate) {
-        const hasRelay = candidateTypes.has('relay');
+        const hasRelay = peer.candidateTypes.has('relay');
         logger.debug(`ICE gathering complete for ${peerId}:`, {
-          candidateTypes: Array.from(candidateTypes),
+          candidateTypes: Array.from(peer.candidateTypes),
           usingTURN: hasRelay ? 'YES' : 'NO'
         });
       }
@@ -124,22 +190,8 @@ export class WebRTCHandler {
       } else if (pc.iceConnectionState === 'failed') {
         logger.warn(`ICE connection failed for ${peerId}, attempting ICE restart...`);
         
-        try {
-          if (peer.isInitiator && this.ws && this.ws.readyState === WebSocket.OPEN) {
-            const offer = await pc.createOffer({ iceRestart: true });
-            await pc.setLocalDescription(offer);
-            
-            this.ws.send(JSON.stringify({
-              type: 'offer',
-              to: peerId,
-              offer: pc.localDescription
-            }));
-            
-            logger.info(`Sent ICE restart offer to ${peerId}`);
-          }
-        } catch (error) {
-          logger.error(`ICE restart failed for ${peerId}:`, error);
-        }
+        // Triggers negotiationneeded; either side may restart since collisions are resolved
+        pc.restartIce();
       }
     };
 
@@ -189,45 +241,44 @@ export class WebRTCHandler {
       }
     };
 
-    if (isInitiator) {
-      logger.debug(`Creating data channel for ${peerId} (initiator)`);
-      const dataChannel = pc.createDataChannel('bittorrent', {
-        ordered: true,
-        maxRetransmits: 3
-      });
-      this.setupDataChannel(peerId, dataChannel);
-      peer.dataChannel = dataChannel;
-
+    // Any change that needs negotiation (the first channel, an ICE restart, channels
+    // or tracks added later) produces an offer from whichever side made the change
+    pc.onnegotiationneeded = async () => {
       try {
-        const offer = await pc.createOffer();
-        await pc.setLocalDescription(offer);
-        
+        peer.makingOffer = true;
+        await pc.setLocalDescription();
         logger.debug(`Sending offer to ${peerId}`);
-        if (this.ws && this.ws.readyState === WebSocket.OPEN) {
-          this.ws.send(JSON.stringify({
-            type: 'offer',
-            to: peerId,
-            offer: pc.localDescription
-          }));
-        }
+        this.sendDescription(peerId, pc.localDescription!);
       } catch (error) {
         logger.error(`Failed to create/send offer to ${peerId}:`, error);
-        this.handlePeerDisconnect(peerId);
-        return null;
+      } finally {
+        peer.makingOffer = false;
       }
-    } else {
-      logger.debug(`Waiting for data channel from ${peerId} (answerer)`);
-      pc.ondatachannel = (event) => {
-        logger.debug(`Received data channel from ${peerId}`);
-        this.setupDataChannel(peerId, event.channel);
-        peer.dataChannel = event.channel;
-      };
-    }
+    };
+
+    // Pre-negotiated on both sides, so it does not matter which offer wins
+    const dataChannel = pc.createDataChannel('bittorrent', {
+      negotiated: true,
+      id: 0,
+      ordered: true,
+      maxRetransmits: 3
+    });
+    this.setupDataChannel(peerId, dataChannel);
+    peer.dataChannel = dataChannel;
 
     this.peers.set(peerId, peer);
     return peer;
   }
 
+  private sendDescription(peerId: string, description: RTCSessionDescription): void {
+    const sent = description.type === 'answer'
+      ? this.signaling.send({ type: 'answer', to: peerId, answer: description.toJSON() })
+      : this.signaling.send({ type: 'offer', to: peerId, offer: description.toJSON() });
+    if (!sent) {
+      logger.warn(`No signaling route to ${peerId}, ${description.type} not sent`);
+    }
+  }
+
   private setupDataChannel(peerId: string, channel: RTCDataChannel): void {
     logger.debug(`Setting up data channel for ${peerId} (current state: ${channel.readyState})`);
     channel.binaryType = 'arraybuffer';
@@ -266,61 +317,120 @@ export class WebRTCHandler {
 
   public async handleOffer(peerId: string, offer: RTCSessionDescriptionInit): Promise<void> {
     logger.debug(`Received offer from ${peerId}`);
-    try {
-      const peer = await this.createPeerConnection(peerId, false);
-      if (!peer) return;
-      
-      await peer.connection.setRemoteDescription(offer);
-      logger.debug(`Set remote description (offer) from ${peerId}`);
-
-      const answer = await peer.connection.createAnswer();
-      await peer.connection.setLocalDescription(answer);
-      logger.debug(`Created and set local description (answer) for ${peerId}`);
-
-      if (this.ws && this.ws.readyState === WebSocket.OPEN) {
-        logger.debug(`Sending answer to ${peerId}`);
-        this.ws.send(JSON.stringify({
-          type: 'answer',
-          to: peerId,
-          answer: peer.connection.localDescription
-        }));
-      }
-    } catch (error) {
-      logger.error(`Failed to handle offer from ${peerId}:`, error);
-      this.handlePeerDisconnect(peerId);
-    }
+    const peer = await this.createPeerConnection(peerId, false);
+    if (!peer) return;
+    await this.handleDescription(peer, offer);
   }
 
   public async handleAnswer(peerId: string, answer: RTCSessionDescriptionInit): Promise<void> {
     logger.debug(`Received answer from ${peerId}`);
     const peer = this.peers.get(peerId);
-    if (peer) {
-      try {
-        await peer.connection.setRemoteDescription(answer);
-        logger.debug(`Set remote description (answer) from ${peerId}`);
-      } catch (error) {
-        logger.error(`Failed to set remote description from ${peerId}:`, error);
-        this.handlePeerDisconnect(peerId);
-      }
-    } else {
+    if (!peer) {
       logger.warn(`Received answer from unknown peer ${peerId}`);
+      return;
     }
+    await this.handleDescription(peer, answer);
   }
 
+  /**
+   * Perfect negotiation: on an offer collision the impolite side ignores the
+   * incoming offer, while the polite side rolls back its own and answers.
+   */
+  private async handleDescription(peer: WebRTCPeer, description: RTCSessionDescriptionInit): Promise<void> {
+    const pc = peer.connection;
+    try {
+      const readyForOffer = !peer.makingOffer && (pc.signalingState === 'stable' || peer.settingRemoteAnswer);
+      const offerCollision = description.type === 'offer' && !readyForOffer;
+
+      peer.ignoreOffer = !peer.polite && offerCollision;
+      if (peer.ignoreOffer) {
+        logger.debug(`Ignoring colliding offer from ${peer.id} (we are impolite)`);
+        return;
+      }
+
+      peer.settingRemoteAnswer = description.type === 'answer';
+      await pc.setRemoteDescription(description); // rolls back our own offer on collision
+      peer.settingRemoteAnswer = false;
+      logger.debug(`Set remote description (${description.type}) from ${peer.id}`);
+      await this.flushPendingCandidates(peer);
+
+      if (description.type === 'offer') {
+        await pc.setLocalDescription();
+        logger.debug(`Sending answer to ${peer.id}`);
+        this.sendDescription(peer.id, pc.localDescription!);
+      }
+    } catch (error) {
+      peer.settingRemoteAnswer = false;
+      logger.error(`Failed to handle ${description.type} from ${peer.id}:`, error);
+      this.handlePeerDisconnect(peer.id);
+    }
+  }
+
+  /**
+   * Adds a remote candidate, queueing it until the remote description is set.
+   * Candidates for a peer we have not created yet are held for ORPHAN_CANDIDATE_TTL.
+   */
   public async handleIceCandidate(peerId: string, candidate: RTCIceCandidateInit): Promise<void> {
     const peer = this.peers.get(peerId);
-    if (peer) {
-      try {
-        await peer.connection.addIceCandidate(candidate);
-        logger.debug(`Added ICE candidate from ${peerId} (type: ${candidate.candidate?.split(' ')[7]})`);
-      } catch (error) {
-        logger.error(`Failed to add ICE candidate from ${peerId}:`, error);
+    if (!peer) {
+      this.holdOrphanCandidate(peerId, candidate);
+      return;
+    }
+
+    if (!peer.connection.remoteDescription) {
+      peer.pendingCandidates.push(candidate);
+      logger.debug(`Queued ICE candidate from ${peerId} until remote description is set (${peer.pendingCandidates.length} pending)`);
+      return;
+    }
+
+    await this.addIceCandidate(peer, candidate);
+  }
+
+  private async addIceCandidate(peer: WebRTCPeer, candidate: RTCIceCandidateInit): Promise<void> {
+    try {
+      await peer.connection.addIceCandidate(candidate);
+      logger.debug(`Added ICE candidate from ${peer.id} (type: ${candidate.candidate?.split(' ')[7]})`);
+    } catch (error) {
+      // Candidates belonging to an offer we ignored are expected to fail
+      if (!peer.ignoreOffer) {
+        logger.error(`Failed to add ICE candidate from ${peer.id}:`, error);
       }
-    } else {
-      logger.warn(`Received ICE candidate from unknown peer ${peerId}`);
     }
   }
 
+  private async flushPendingCandidates(peer: WebRTCPeer): Promise<void> {
+    const pending = peer.pendingCandidates;
+    peer.pendingCandidates = [];
+    for (const candidate of pending) {
+      await this.addIceCandidate(peer, candidate);
+    }
+  }
+
+  private holdOrphanCandidate(peerId: string, candidate: RTCIceCandidateInit): void {
+    let orphan = this.orphanCandidates.get(peerId);
+    if (!orphan) {
+      logger.debug(`Holding ICE candidate from unknown peer ${peerId}`);
+      orphan = {
+        candidates: [],
+        expiry: setTimeout(() => {
+          logger.warn(`Dropping ${this.orphanCandidates.get(peerId)?.candidates.length ?? 0} ICE candidate(s) from ${peerId}: no connection was created`);
+          this.orphanCandidates.delete(peerId);
+        }, P2P_CONFIG.ORPHAN_CANDIDATE_TTL),
+      };
+      this.orphanCandidates.set(peerId, orphan);
+    }
+    orphan.candidates.push(candidate);
+  }
+
+  private takeOrphanCandidates(peerId: string): RTCIceCandidateInit[] {
+    const orphan = this.orphanCandidates.get(peerId);
+    if (!orphan) return [];
+
+    clearTimeout(orphan.expiry);
+    this.orphanCandidates.delete(peerId);
+    return orphan.candidates;
+  }
+
   public handlePeerDisconnect(peerId: string): void {
     const timeout = this.disconnectTimeouts.get(peerId);
     if (timeout) {
@@ -343,6 +453,8 @@ export class WebRTCHandler {
     
     this.disconnectTimeouts.forEach(timeout => clearTimeout(timeout));
     this.disconnectTimeouts.clear();
+    this.orphanCandidates.forEach(orphan => clearTimeout(orphan.expiry));
+    this.orphanCandidates.clear();
     
     this.peers.forEach(peer => {
       peer.dataChannel?.close();
@@ -0,0 +1,83 @@
+/**
+ * Tracker connection over a WebSocket, reconnecting whenever it drops
+ */
+
+import { P2P_CONFIG } from './constants';
+import { logger } from './logger';
+import type { TrackerMessage, OutgoingTrackerMessage } from './message-types';
+import type { TrackerConnection } from './transport';
+
+export const DEFAULT_TRACKER_URL = 'wss://p2p-mesh-sharing.onrender.com';
+
+export class WebSocketTracker implements TrackerConnection {
+  private ws: WebSocket | null = null;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  private closed = false;
+
+  public onOpen: () => void = () => {};
+  public onMessage: (message: TrackerMessage) => void = () => {};
+  public onClose: () => void = () => {};
+
+  constructor(private readonly url: string = DEFAULT_TRACKER_URL) {}
+
+  public connect(): void {
+    this.closed = false;
+    logger.info('Connecting to tracker:', this.url);
+    const ws = new WebSocket(this.url);
+    this.ws = ws;
+
+    ws.onopen = () => {
+      logger.info('Connected to tracker');
+      this.onOpen();
+    };
+
+    ws.onmessage = (event) => {
+      let message: TrackerMessage;
+      try {
+        message = JSON.parse(event.data) as TrackerMessage;
+      } catch (error) {
+        logger.error('Failed to parse tracker message:', error);
+        return;
+      }
+      this.onMessage(message);
+    };
+
+    ws.onerror = (error) => logger.error('Tracker error:', error);
+    ws.onclose = () => {
+      if (this.ws !== ws) return;
+      this.ws = null;
+      this.onClose();
+      if (this.closed) return;
+
+      logger.warn('Disconnected from tracker, reconnecting...');
+      this.reconnectTimer = setTimeout(() => {
+        this.reconnectTimer = null;
+        this.connect();
+      }, P2P_CONFIG.RECONNECT_DELAY);
+    };
+  }
+
+  public isOpen(): boolean {
+    return this.ws?.readyState === WebSocket.OPEN;
+  }
+
+  public send(message: OutgoingTrackerMessage): boolean {
+    if (!this.ws || this.ws.readyState !== WebSocket.OPEN) return false;
+    try {
+      this.ws.send(JSON.stringify(message));
+      return true;
+    } catch (error) {
+      logger.error('Failed to send to tracker:', error);
+      return false;
+    }
+  }
+
+  public close(): void {
+    this.closed = true;
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+    this.ws?.close();
+  }
+}
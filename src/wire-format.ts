@@ -0,0 +1,61 @@
+/**
+ * Binary framing for piece data sent over the data channel.
+ * Control messages stay JSON; pieces are sent as a compact header followed by raw bytes.
+ *
+ * Layout (big-endian):
+ *   u8   frame type (FRAME_TYPE_PIECE)
+ *   u8   model ID length in bytes (n)
+ *   n    model ID (UTF-8)
+ *   u32  chunk index
+ *   ...  chunk data
+ */
+
+import type { PieceMessage } from './message-types';
+
+export const FRAME_TYPE_PIECE = 1;
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+/**
+ * Encodes a piece into a single binary frame
+ */
+export function encodePieceFrame(modelId: string, chunkIndex: number, data: ArrayBuffer): ArrayBuffer {
+  const idBytes = encoder.encode(modelId);
+  if (idBytes.length > 0xff) {
+    throw new Error(`Model ID too long for piece frame: ${idBytes.length} bytes`);
+  }
+
+  const headerSize = 2 + idBytes.length + 4;
+  const frame = new Uint8Array(headerSize + data.byteLength);
+  const view = new DataView(frame.buffer);
+
+  view.setUint8(0, FRAME_TYPE_PIECE);
+  view.setUint8(1, idBytes.length);
+  frame.set(idBytes, 2);
+  view.setUint32(2 + idBytes.length, chunkIndex);
+  frame.set(new Uint8Array(data), headerSize);
+
+  return frame.buffer;
+}
+
+/**
+ * Decodes a binary frame, returning null if it is malformed or of an unknown type
+ */
+export function decodeFrame(buffer: ArrayBuffer): PieceMessage | null {
+  if (buffer.byteLength < 2) return null;
+
+  const view = new DataView(buffer);
+  if (view.getUint8(0) !== FRAME_TYPE_PIECE) return null;
+
+  const idLength = view.getUint8(1);
+  const headerSize = 2 + idLength + 4;
+  if (buffer.byteLength < headerSize) return null;
+
+  return {
+    type: 'piece',
+    modelId: decoder.decode(new Uint8Array(buffer, 2, idLength)),
+    chunkIndex: view.getUint32(2 + idLength),
+    data: buffer.slice(headerSize),
+  };
+}
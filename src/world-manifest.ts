@@ -0,0 +1,137 @@
+/**
+ * Portable snapshots of a world: every placement with its transform, prompt,
+ * author and signature. A manifest is saved as JSON on its own, or as a world
+ * archive that also carries the GLB bytes of the models, so importing it
+ * does not depend on any peer still having them.
+ *
+ * Archive layout (big-endian):
+ *   4    magic "P2PW"
+ *   u32  manifest length in bytes (n)
+ *   n    manifest JSON (UTF-8)
+ *   ...  model bytes, back to back in the order of manifest.embedded
+ */
+
+import type { ModelPackage } from './model-serializer';
+
+export const WORLD_MANIFEST_VERSION = 1;
+
+const ARCHIVE_MAGIC = [0x50, 0x32, 0x50, 0x57]; // "P2PW"
+const ARCHIVE_HEADER_SIZE = ARCHIVE_MAGIC.length + 4;
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+export interface EmbeddedModel {
+  modelId: string;
+  byteLength: number;
+}
+
+export interface WorldManifest {
+  version: number;
+  exportedAt: number;
+  placements: ModelPackage[]; // signed packages, checked again on import
+  embedded: EmbeddedModel[]; // models whose bytes follow the manifest in an archive
+}
+
+export interface WorldSnapshot {
+  manifest: WorldManifest;
+  models: Map<string, Uint8Array<ArrayBuffer>>; // modelId -> GLB bytes; empty for a bare manifest
+}
+
+export function createWorldManifest(placements: ModelPackage[], embedded: EmbeddedModel[] = []): WorldManifest {
+  return {
+    version: WORLD_MANIFEST_VERSION,
+    exportedAt: Date.now(),
+    placements,
+    embedded,
+  };
+}
+
+/**
+ * Validates the manifest's outline; the placements themselves are verified by the importer
+ */
+export function parseWorldManifest(json: string): WorldManifest {
+  const manifest = JSON.parse(json) as Partial<WorldManifest> | null;
+  if (!manifest || typeof manifest !== 'object' || typeof manifest.version !== 'number') {
+    throw new Error('Not a world manifest');
+  }
+  if (manifest.version > WORLD_MANIFEST_VERSION) {
+    throw new Error(`Unsupported world manifest version ${manifest.version} (this client reads up to ${WORLD_MANIFEST_VERSION})`);
+  }
+  if (!Array.isArray(manifest.placements)) {
+    throw new Error('World manifest has no placements');
+  }
+
+  const embedded = manifest.embedded ?? [];
+  if (!Array.isArray(embedded) ||
+      embedded.some(model => typeof model?.modelId !== 'string' || !Number.isInteger(model.byteLength) || model.byteLength < 0)) {
+    throw new Error('World manifest has a malformed list of embedded models');
+  }
+
+  return {
+    version: manifest.version,
+    exportedAt: typeof manifest.exportedAt === 'number' ? manifest.exportedAt : 0,
+    placements: manifest.placements,
+    embedded,
+  };
+}
+
+/**
+ * Bundles a manifest of `placements` with the bytes of `models` into one archive
+ */
+export function encodeWorldArchive(placements: ModelPackage[], models: Map<string, Uint8Array>): ArrayBuffer {
+  const embedded = Array.from(models.entries()).map(([modelId, data]) => ({ modelId, byteLength: data.byteLength }));
+  const manifestBytes = encoder.encode(JSON.stringify(createWorldManifest(placements, embedded)));
+  const modelBytes = embedded.reduce((sum, model) => sum + model.byteLength, 0);
+
+  const archive = new Uint8Array(ARCHIVE_HEADER_SIZE + manifestBytes.length + modelBytes);
+  archive.set(ARCHIVE_MAGIC, 0);
+  new DataView(archive.buffer).setUint32(ARCHIVE_MAGIC.length, manifestBytes.length);
+  archive.set(manifestBytes, ARCHIVE_HEADER_SIZE);
+
+  let offset = ARCHIVE_HEADER_SIZE + manifestBytes.length;
+  models.forEach(data => {
+    archive.set(data, offset);
+    offset += data.byteLength;
+  });
+  return archive.buffer;
+}
+
+export function isWorldArchive(buffer: ArrayBuffer): boolean {
+  const bytes = new Uint8Array(buffer, 0, Math.min(buffer.byteLength, ARCHIVE_MAGIC.length));
+  return bytes.length === ARCHIVE_MAGIC.length && ARCHIVE_MAGIC.every((byte, i) => bytes[i] === byte);
+}
+
+export function decodeWorldArchive(buffer: ArrayBuffer): WorldSnapshot {
+  if (!isWorldArchive(buffer) || buffer.byteLength < ARCHIVE_HEADER_SIZE) {
+    throw new Error('Not a world archive');
+  }
+
+  const manifestLength = new DataView(buffer).getUint32(ARCHIVE_MAGIC.length);
+  let offset = ARCHIVE_HEADER_SIZE + manifestLength;
+  if (offset > buffer.byteLength) {
+    throw new Error('World archive is truncated');
+  }
+  const manifest = parseWorldManifest(decoder.decode(new Uint8Array(buffer, ARCHIVE_HEADER_SIZE, manifestLength)));
+
+  const models = new Map<string, Uint8Array<ArrayBuffer>>();
+  for (const { modelId, byteLength } of manifest.embedded) {
+    if (offset + byteLength > buffer.byteLength) {
+      throw new Error('World archive is truncated');
+    }
+    models.set(modelId, new Uint8Array(buffer.slice(offset, offset + byteLength)));
+    offset += byteLength;
+  }
+  return { manifest, models };
+}
+
+/**
+ * Reads either form: manifest JSON (as text or bytes) or a world archive
+ */
+export function readWorld(data: string | ArrayBuffer): WorldSnapshot {
+  if (typeof data !== 'string' && isWorldArchive(data)) {
+    return decodeWorldArchive(data);
+  }
+  const json = typeof data === 'string' ? data : decoder.decode(data);
+  return { manifest: parseWorldManifest(json), models: new Map() };
+}